@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchUserTokenBalances } from '@/lib/neynar';
+import { fetchUserTokenBalances, DEFAULT_TOKEN_LIMIT, MAX_TOKEN_LIMIT, TokenSortKey } from '@/lib/neynar';
 import { processTokenImages } from '@/lib/r2';
 
 export async function GET(request: NextRequest) {
@@ -7,6 +7,11 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams;
     const fidParam = searchParams.get('fid');
     const bankrAddressesParam = searchParams.get('bankrAddresses');
+    const limitParam = searchParams.get('limit');
+    const offsetParam = searchParams.get('offset');
+    const minValueUsdParam = searchParams.get('minValueUsd');
+    const sortParam = searchParams.get('sort') || 'value';
+    const includeFiltered = ['true', '1'].includes(searchParams.get('includeFiltered') || '');
 
     if (!fidParam) {
       return NextResponse.json(
@@ -23,6 +28,39 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_TOKEN_LIMIT;
+    if (isNaN(limit) || limit < 1 || limit > MAX_TOKEN_LIMIT) {
+      return NextResponse.json(
+        { error: `limit must be a number between 1 and ${MAX_TOKEN_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const offset = offsetParam ? parseInt(offsetParam, 10) : 0;
+    if (isNaN(offset) || offset < 0) {
+      return NextResponse.json(
+        { error: 'offset must be a non-negative number' },
+        { status: 400 }
+      );
+    }
+
+    const minValueUsd = minValueUsdParam ? parseFloat(minValueUsdParam) : 0;
+    if (isNaN(minValueUsd) || minValueUsd < 0) {
+      return NextResponse.json(
+        { error: 'minValueUsd must be a non-negative number' },
+        { status: 400 }
+      );
+    }
+
+    const sortKeys: TokenSortKey[] = ['value', 'balance', 'symbol', 'chain'];
+    if (!sortKeys.includes(sortParam as TokenSortKey)) {
+      return NextResponse.json(
+        { error: `sort must be one of: ${sortKeys.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const sort = sortParam as TokenSortKey;
+
     // Parse Bankr addresses if provided (comma-separated)
     const bankrAddresses: string[] = bankrAddressesParam 
       ? bankrAddressesParam.split(',').map(addr => addr.trim()).filter(addr => addr.length > 0)
@@ -33,25 +71,22 @@ export async function GET(request: NextRequest) {
       console.log(`Balance API: Including ${bankrAddresses.length} Bankr addresses: ${bankrAddresses.join(', ')}`);
     }
     
-    const balanceResult = await fetchUserTokenBalances(fid, bankrAddresses);
-    
-    // Process token images with R2 for top 10 tokens
-    const topTokens = balanceResult.tokens.slice(0, 10);
-    const processedTopTokens = await processTokenImages(topTokens);
+    const balanceResult = await fetchUserTokenBalances(fid, bankrAddresses, { limit, offset, minValueUsd, sort, includeFiltered });
     
-    // Add r2_image_url: null to remaining tokens for consistency
-    const remainingTokens = balanceResult.tokens.slice(10).map(token => ({
-      ...token,
-      r2_image_url: null
-    }));
+    // Process token images with R2 for the requested page (already capped at MAX_TOKEN_LIMIT)
+    const processedTokens = await processTokenImages(balanceResult.tokens);
+    const processedPositions = await processTokenImages(balanceResult.positions);
 
     // Replace the tokens array with the enhanced version
     const enhancedResult = {
       ...balanceResult,
-      tokens: processedTopTokens.concat(remainingTokens)
+      tokens: processedTokens,
+      positions: processedPositions,
+      offset,
+      limit
     };
     
-    console.log(`Balance API: Returning ${enhancedResult.tokens.length} tokens for FID ${fid}, ${processedTopTokens.filter(t => t.r2_image_url && t.r2_image_url !== t.logo_url).length} with R2 images`);
+    console.log(`Balance API: Returning ${enhancedResult.tokens.length} of ${balanceResult.total_count} tokens for FID ${fid}, ${processedTokens.filter(t => t.r2_image_url && t.r2_image_url !== t.logo_url).length} with R2 images`);
     
     return NextResponse.json(enhancedResult);
 
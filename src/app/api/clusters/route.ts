@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findInvalidSearchInputs, searchUsers } from '@/lib/search';
+import { buildClusterReport, clusterReportToCsv, DEFAULT_FID_WINDOW, MAX_FID_WINDOW } from '@/lib/clusters';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { inputs, fidWindow = DEFAULT_FID_WINDOW } = await request.json();
+    const format = request.nextUrl.searchParams.get('format');
+
+    if (!inputs || !Array.isArray(inputs) || inputs.length < 2) {
+      return NextResponse.json(
+        { error: 'Please provide an array of at least two wallet addresses, usernames, FIDs, or X usernames' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(fidWindow) || fidWindow < 0 || fidWindow > MAX_FID_WINDOW) {
+      return NextResponse.json(
+        { error: `fidWindow must be an integer between 0 and ${MAX_FID_WINDOW}` },
+        { status: 400 }
+      );
+    }
+
+    if (format && format !== 'json' && format !== 'csv') {
+      return NextResponse.json(
+        { error: 'format must be "json" or "csv"' },
+        { status: 400 }
+      );
+    }
+
+    const invalidInputs = findInvalidSearchInputs(inputs);
+    if (invalidInputs.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Invalid inputs provided',
+          invalidInputs
+        },
+        { status: 400 }
+      );
+    }
+
+    const { users, notFoundInputs } = await searchUsers(inputs);
+    const report = buildClusterReport(users, { fidWindow, notFoundInputs });
+
+    // Explicit formats are served as file downloads
+    const filename = `cluster-report-${report.generated_at.slice(0, 10)}`;
+    if (format === 'csv') {
+      return new NextResponse(clusterReportToCsv(report), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}.csv"`
+        }
+      });
+    }
+    if (format === 'json') {
+      return new NextResponse(JSON.stringify(report, null, 2), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="${filename}.json"`
+        }
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      report
+    });
+
+  } catch (error) {
+    console.error('Clusters API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to build cluster report',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle GET requests for testing
+export async function GET() {
+  return NextResponse.json({
+    message: 'Farcaster Cluster Report API',
+    usage: 'POST with { "inputs": ["0x...", "username", "123"], "fidWindow": 100 }; add ?format=csv or ?format=json to download',
+    reasons: ['shared_address', 'similar_username', 'fid_range']
+  });
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchUsersByAddresses, searchUsersByFIDs, FarcasterUser } from '@/lib/neynar';
+import { findTokenHolders } from '@/lib/holders';
+import { isValidEthereumAddress, isValidSolanaAddress } from '@/lib/validation';
+
+// Every candidate means a full balance lookup, so keep requests bounded
+const MAX_HOLDER_CANDIDATES = 50;
+
+export async function POST(request: NextRequest) {
+  try {
+    const { token, fids = [], addresses = [] } = await request.json();
+
+    if (!token || typeof token !== 'string' || !isValidEthereumAddress(token)) {
+      return NextResponse.json(
+        { error: 'Please provide a valid Base token contract address as "token"' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(fids) || !Array.isArray(addresses) || fids.length + addresses.length === 0) {
+      return NextResponse.json(
+        { error: 'Please provide an array of FIDs and/or wallet addresses to check' },
+        { status: 400 }
+      );
+    }
+
+    if (fids.length + addresses.length > MAX_HOLDER_CANDIDATES) {
+      return NextResponse.json(
+        { error: `Too many candidates: at most ${MAX_HOLDER_CANDIDATES} FIDs and addresses per request` },
+        { status: 400 }
+      );
+    }
+
+    const fidInputs = fids.map(fid => String(fid).trim());
+    const invalidInputs = [
+      ...fidInputs.filter(fid => !/^\d+$/.test(fid)),
+      ...addresses.filter(address => typeof address !== 'string' || (!isValidEthereumAddress(address) && !isValidSolanaAddress(address)))
+    ];
+    if (invalidInputs.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Invalid inputs provided',
+          invalidInputs
+        },
+        { status: 400 }
+      );
+    }
+
+    const allUsers: FarcasterUser[] = [];
+    const notFoundInputs: string[] = [];
+
+    if (fidInputs.length > 0) {
+      const fidResults = await searchUsersByFIDs(fidInputs);
+      allUsers.push(...fidResults.users);
+      notFoundInputs.push(...fidResults.notFoundFIDs);
+    }
+
+    if (addresses.length > 0) {
+      const addressResults = await searchUsersByAddresses(addresses);
+      allUsers.push(...addressResults.users);
+      notFoundInputs.push(...addressResults.notFoundInputs);
+    }
+
+    // Remove duplicates based on FID (Farcaster ID)
+    const uniqueUsers = allUsers.filter((user, index, self) =>
+      index === self.findIndex(u => u.fid === user.fid)
+    );
+
+    console.log(`Holders API: Checking ${uniqueUsers.length} users for token ${token}`);
+
+    const holdersResult = await findTokenHolders(token, uniqueUsers);
+
+    return NextResponse.json({
+      success: true,
+      results: {
+        ...holdersResult,
+        notFoundInputs
+      }
+    });
+
+  } catch (error) {
+    console.error('Holders API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to find token holders',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle GET requests for testing
+export async function GET() {
+  return NextResponse.json({
+    message: 'Farcaster Token Holder Lookup API',
+    usage: 'POST with { "token": "0x...", "fids": [3, 194], "addresses": ["0x..."] }',
+    maxCandidates: MAX_HOLDER_CANDIDATES
+  });
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchUserNftHoldings } from '@/lib/nfts';
+import { getTokenImageUrl } from '@/lib/r2';
+import { createLimiter } from '@/lib/concurrency';
+
+// Items per collection shown before it is expanded (COLLAPSED_ITEMS in NftHoldings); only
+// these and the collection image go through the R2 cache, the rest keep their original URL
+const CACHED_ITEMS_PER_COLLECTION = 6;
+
+// Each cache miss downloads, resizes (sharp) and uploads an image, so cap them across requests
+const imageCacheLimit = createLimiter(4);
+
+/**
+ * Route an image through the R2 cache, within the shared concurrency cap
+ * @param url - Original image URL
+ * @returns Promise with the cached URL (or the original if caching failed)
+ */
+function cacheImage(url: string | undefined): Promise<string | undefined> {
+  return url ? imageCacheLimit(() => getTokenImageUrl(url)) : Promise.resolve(undefined);
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const fidParam = searchParams.get('fid');
+    const bankrAddressesParam = searchParams.get('bankrAddresses');
+
+    if (!fidParam) {
+      return NextResponse.json(
+        { error: 'FID parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const fid = parseInt(fidParam, 10);
+    if (isNaN(fid)) {
+      return NextResponse.json(
+        { error: 'FID must be a valid number' },
+        { status: 400 }
+      );
+    }
+
+    // Parse Bankr addresses if provided (comma-separated)
+    const bankrAddresses: string[] = bankrAddressesParam
+      ? bankrAddressesParam.split(',').map(addr => addr.trim()).filter(addr => addr.length > 0)
+      : [];
+
+    console.log(`NFT API: Fetching NFT holdings for FID ${fid}`);
+
+    const nftResult = await fetchUserNftHoldings(fid, bankrAddresses);
+
+    // Route collection images and the initially visible item images through the R2 cache
+    const collections = await Promise.all(nftResult.collections.map(async (collection) => ({
+      ...collection,
+      image_url: await cacheImage(collection.image_url),
+      nfts: await Promise.all(collection.nfts.map(async (nft, index) => ({
+        ...nft,
+        image_url: index < CACHED_ITEMS_PER_COLLECTION ? await cacheImage(nft.image_url) : nft.image_url
+      })))
+    })));
+
+    console.log(`NFT API: Returning ${collections.length} collections (${nftResult.total_count} NFTs) for FID ${fid}`);
+
+    return NextResponse.json({
+      ...nftResult,
+      collections
+    });
+
+  } catch (error) {
+    console.error('NFT API error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch NFT holdings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
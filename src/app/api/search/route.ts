@@ -1,17 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { 
-  searchUsersByAddresses, 
-  searchUsersByUsernames, 
-  searchUsersByFIDs, 
-  searchUsersByXUsernames, 
-  FarcasterUser 
-} from '@/lib/neynar';
-import { validateAddressOrUsername } from '@/lib/validation';
-import { getBankrWalletData } from '@/lib/bankr';
+import { findInvalidSearchInputs, searchUsers } from '@/lib/search';
+import { getExportFilename, searchResultToCsv, searchResultToJson } from '@/lib/export';
 
 export async function POST(request: NextRequest) {
   try {
     const { inputs } = await request.json();
+    const format = request.nextUrl.searchParams.get('format');
 
     // Validate that inputs are provided
     if (!inputs || !Array.isArray(inputs) || inputs.length === 0) {
@@ -21,180 +15,53 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate and categorize each input
-    const validationResults = inputs.map(input => ({
-      input: input,
-      ...validateAddressOrUsername(input)
-    }));
+    if (format && format !== 'json' && format !== 'csv') {
+      return NextResponse.json(
+        { error: 'format must be "json" or "csv"' },
+        { status: 400 }
+      );
+    }
 
     // Check if any inputs are invalid
-    const invalidInputs = validationResults.filter(result => !result.isValid);
+    const invalidInputs = findInvalidSearchInputs(inputs);
     if (invalidInputs.length > 0) {
       return NextResponse.json(
-        { 
+        {
           error: 'Invalid inputs provided',
-          invalidInputs: invalidInputs.map(result => ({
-            input: result.input,
-            error: result.error
-          }))
+          invalidInputs
         },
         { status: 400 }
       );
     }
 
-    // Separate inputs by type
-    const addresses = validationResults
-      .filter(result => result.type === 'ethereum' || result.type === 'solana')
-      .map(result => result.input);
-    
-    const usernames = validationResults
-      .filter(result => result.type === 'farcaster')
-      .map(result => result.input);
-
-    const fids = validationResults
-      .filter(result => result.type === 'fid')
-      .map(result => result.input);
-
-    const xUsernames = validationResults
-      .filter(result => result.type === 'x_username')
-      .map(result => result.input);
-
-    const ambiguousUsernames = validationResults
-      .filter(result => result.type === 'username')
-      .map(result => result.input);
-
-    // Combine results from all search types
-    const allUsers: FarcasterUser[] = [];
-    const allSearchedInputs: string[] = [];
-    const allNotFoundInputs: string[] = [];
-
-    // Search by addresses if any provided
-    if (addresses.length > 0) {
-      console.log('Searching by addresses:', addresses);
-      const addressResults = await searchUsersByAddresses(addresses);
-      
-      allUsers.push(...addressResults.users);
-      allSearchedInputs.push(...addressResults.searchedInputs);
-      allNotFoundInputs.push(...addressResults.notFoundInputs);
-    }
-
-    // Search by usernames if any provided
-    if (usernames.length > 0) {
-      console.log('Searching by usernames:', usernames);
-      const usernameResults = await searchUsersByUsernames(usernames);
-      
-      allUsers.push(...usernameResults.users);
-      allSearchedInputs.push(...usernameResults.searchedUsernames);
-      allNotFoundInputs.push(...usernameResults.notFoundUsernames);
-    }
-
-    // Search by FIDs if any provided
-    if (fids.length > 0) {
-      console.log('Searching by FIDs:', fids);
-      const fidResults = await searchUsersByFIDs(fids);
-      
-      allUsers.push(...fidResults.users);
-      allSearchedInputs.push(...fidResults.searchedFIDs);
-      allNotFoundInputs.push(...fidResults.notFoundFIDs);
-    }
-
-    // Search by X usernames if any provided
-    if (xUsernames.length > 0) {
-      console.log('Searching by X usernames:', xUsernames);
-      const xUsernameResults = await searchUsersByXUsernames(xUsernames);
-      
-      allUsers.push(...xUsernameResults.users);
-      allSearchedInputs.push(...xUsernameResults.searchedXUsernames);
-      allNotFoundInputs.push(...xUsernameResults.notFoundXUsernames);
-    }
-
-    // Search ambiguous usernames (try Farcaster first, then X username for any not found)
-    if (ambiguousUsernames.length > 0) {
-      console.log('Searching ambiguous usernames:', ambiguousUsernames);
-      
-      // First try as Farcaster usernames
-      const farcasterResults = await searchUsersByUsernames(ambiguousUsernames);
-      allUsers.push(...farcasterResults.users);
-      allSearchedInputs.push(...farcasterResults.searchedUsernames);
-      
-      // For usernames not found as Farcaster usernames, try as X usernames
-      const notFoundAsFarcaster = farcasterResults.notFoundUsernames;
-      if (notFoundAsFarcaster.length > 0) {
-        console.log('Trying not-found usernames as X usernames:', notFoundAsFarcaster);
-        const xResults = await searchUsersByXUsernames(notFoundAsFarcaster);
-        allUsers.push(...xResults.users);
-        allSearchedInputs.push(...xResults.searchedXUsernames);
-        
-        // Only mark as not found if not found in both searches
-        allNotFoundInputs.push(...xResults.notFoundXUsernames);
-      }
-    }
-
-    // Remove duplicates based on FID (Farcaster ID)
-    const uniqueUsers = allUsers.filter((user, index, self) => 
-      index === self.findIndex(u => u.fid === user.fid)
-    );
+    const results = await searchUsers(inputs);
 
-    // Enhance results with Bankr wallet data
-    const enhancedUsers = await Promise.all(
-      uniqueUsers.map(async (user: FarcasterUser) => {
-        // Skip users without valid username
-        if (!user.username) {
-          console.log('Skipping user without username:', user);
-          return user;
+    if (format === 'csv') {
+      return new NextResponse(searchResultToCsv(results), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${getExportFilename('csv')}"`
         }
-        
-        // Get Bankr wallet data for both Farcaster and Twitter if available
-        console.log(`Fetching Bankr data for Farcaster username: ${user.username}`);
-        const farcasterBankrData = await getBankrWalletData(user.username, 'farcaster');
-        
-        // Check if user has a connected Twitter account
-        const twitterAccount = user.verified_accounts?.find((account) => 
-          account.platform === 'twitter' || account.platform === 'x'
-        );
-        
-        let twitterBankrData = null;
-        if (twitterAccount?.username) {
-          console.log(`Fetching Bankr data for Twitter username: ${twitterAccount.username}`);
-          twitterBankrData = await getBankrWalletData(twitterAccount.username, 'twitter');
-        }
-        
-        // Log results
-        if (farcasterBankrData) {
-          console.log(`Found Farcaster Bankr data for ${user.username}:`, farcasterBankrData);
-        } else {
-          console.log(`No Farcaster Bankr data found for ${user.username}`);
-        }
-        
-        if (twitterBankrData) {
-          console.log(`Found Twitter Bankr data for ${twitterAccount?.username}:`, twitterBankrData);
-        } else if (twitterAccount?.username) {
-          console.log(`No Twitter Bankr data found for ${twitterAccount.username}`);
+      });
+    }
+    if (format === 'json') {
+      return new NextResponse(searchResultToJson(results), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="${getExportFilename('json')}"`
         }
-        
-        return {
-          ...user,
-          bankrData: {
-            farcaster: farcasterBankrData,
-            twitter: twitterBankrData
-          }
-        };
-      })
-    );
+      });
+    }
 
     return NextResponse.json({
       success: true,
-      results: {
-        users: enhancedUsers,
-        searchedInputs: allSearchedInputs,
-        notFoundInputs: allNotFoundInputs
-      }
+      results
     });
 
   } catch (error) {
     console.error('API Error:', error);
     return NextResponse.json(
-      { 
+      {
         error: 'Failed to search for users',
         details: error instanceof Error ? error.message : 'Unknown error'
       },
@@ -207,13 +74,16 @@ export async function POST(request: NextRequest) {
 export async function GET() {
   return NextResponse.json({
     message: 'Farcaster Wallet Search API',
-    usage: 'POST with { "inputs": ["0x...", "username", "123", "twitteruser"] }',
+    usage: 'POST with { "inputs": ["0x...", "username", "123", "twitteruser"] }; add ?format=csv or ?format=json to download an export',
     supportedInputs: [
-      'Ethereum addresses (0x...)', 
-      'Solana addresses (base58)', 
+      'Ethereum addresses (0x...)',
+      'Solana addresses (base58)',
       'Farcaster usernames',
       'Farcaster IDs (FIDs)',
-      'X (Twitter) usernames'
+      'X (Twitter) usernames',
+      'ENS names and Basenames',
+      'Farcaster, X, BaseScan, Etherscan and Solscan links, and @handles',
+      'Type prefixes: fc:, x:, fid:, eth:, sol:, or both: to search a username on Farcaster and X'
     ]
   });
-} 
\ No newline at end of file
+}
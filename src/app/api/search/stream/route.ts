@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findInvalidSearchInputs, searchUsers } from '@/lib/search';
+import { formatSearchEvent, SearchEvent } from '@/lib/search-events';
+
+export async function POST(request: NextRequest) {
+  const { inputs } = await request.json().catch(() => ({ inputs: null }));
+
+  // Validate that inputs are provided
+  if (!inputs || !Array.isArray(inputs) || inputs.length === 0) {
+    return NextResponse.json(
+      { error: 'Please provide an array of wallet addresses, usernames, FIDs, or X usernames' },
+      { status: 400 }
+    );
+  }
+
+  // Check if any inputs are invalid
+  const invalidInputs = findInvalidSearchInputs(inputs);
+  if (invalidInputs.length > 0) {
+    return NextResponse.json(
+      {
+        error: 'Invalid inputs provided',
+        invalidInputs
+      },
+      { status: 400 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      let closed = false;
+      const send = (event: SearchEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(formatSearchEvent(event)));
+        } catch {
+          // The client disconnected; keep the search running but stop writing
+          closed = true;
+        }
+      };
+
+      try {
+        console.log(`📡 Streaming search for ${inputs.length} inputs`);
+        const results = await searchUsers(inputs, send);
+        send({ type: 'done', searchedInputs: results.searchedInputs });
+      } catch (error) {
+        console.error('Search stream error:', error);
+        send({
+          type: 'error',
+          error: 'Failed to search for users',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        });
+      } finally {
+        if (!closed) controller.close();
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
+
+// Handle GET requests for testing
+export async function GET() {
+  return NextResponse.json({
+    message: 'Farcaster Wallet Search streaming API',
+    usage: 'POST with { "inputs": ["0x...", "username", "123", "twitteruser"] }; responds with text/event-stream',
+    events: ['user', 'bankr', 'matches', 'not_found', 'failed', 'progress', 'names', 'done', 'error']
+  });
+}
@@ -1,18 +1,25 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { sdk } from '@farcaster/miniapp-sdk';
 import Image from 'next/image';
 import AddressInput from '@/components/AddressInput';
 import ProfileDisplay from '@/components/ProfileDisplay';
 import TipDev from '@/components/TipDev';
 import { SearchResult } from '@/lib/neynar';
+import { readSearchEvents, SearchProgress } from '@/lib/search-events';
 
 export default function Home() {
   const [searchResults, setSearchResults] = useState<SearchResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showTipGif, setShowTipGif] = useState(false);
+  const [searchProgress, setSearchProgress] = useState<SearchProgress | null>(null);
+  // Set when the stream closed before the search finished, so the results shown are partial
+  const [searchInterrupted, setSearchInterrupted] = useState(false);
+  // FIDs found by a streamed search that are still waiting for their Bankr data
+  const [pendingFids, setPendingFids] = useState<number[]>([]);
+  const searchAbortRef = useRef<AbortController | null>(null);
 
   // Initialize Farcaster Mini App SDK
   useEffect(() => {
@@ -80,14 +87,19 @@ export default function Home() {
   const handleSearch = async (inputs: string[]) => {
     setIsLoading(true);
     setError(null);
-    
+    setSearchInterrupted(false);
+
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+
     try {
-      const response = await fetch('/api/search', {
+      const response = await fetch('/api/search/stream', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ inputs }),
+        signal: controller.signal,
       });
 
       if (!response.ok) {
@@ -95,15 +107,66 @@ export default function Home() {
         throw new Error(errorData.error || 'Search failed');
       }
 
-      const data = await response.json();
-      setSearchResults(data.results);
-      
-      // Scroll to top after search results are loaded
+      // Show the results view right away and fill it in as events arrive
+      setSearchResults({ users: [], searchedInputs: [], notFoundInputs: [], failedInputs: [], matches: [] });
+      setSearchProgress({ inputs_total: inputs.length, inputs_done: 0, users_total: 0, users_enriched: 0 });
+      setPendingFids([]);
       window.scrollTo({ top: 0, behavior: 'smooth' });
+
+      const completed = await readSearchEvents(response, (event) => {
+        switch (event.type) {
+          case 'user':
+            setSearchResults(prev => prev && { ...prev, users: [...prev.users, event.user] });
+            setPendingFids(prev => [...prev, event.user.fid]);
+            break;
+          case 'bankr':
+            setSearchResults(prev => prev && {
+              ...prev,
+              users: prev.users.map(user => user.fid === event.fid ? { ...user, bankrData: event.bankrData } : user)
+            });
+            setPendingFids(prev => prev.filter(fid => fid !== event.fid));
+            break;
+          case 'not_found':
+            setSearchResults(prev => prev && { ...prev, notFoundInputs: [...prev.notFoundInputs, ...event.inputs] });
+            break;
+          case 'matches':
+            setSearchResults(prev => prev && { ...prev, matches: [...(prev.matches || []), ...event.matches] });
+            break;
+          case 'failed':
+            setSearchResults(prev => prev && { ...prev, failedInputs: [...(prev.failedInputs || []), ...event.inputs] });
+            break;
+          case 'progress':
+            setSearchProgress(event.progress);
+            break;
+          case 'names':
+            setSearchResults(prev => prev && { ...prev, names: event.names });
+            break;
+          case 'done':
+            setSearchResults(prev => prev && { ...prev, searchedInputs: event.searchedInputs });
+            break;
+          case 'error':
+            throw new Error(event.details || event.error);
+        }
+      });
+
+      if (!completed && !controller.signal.aborted) {
+        console.error('Search stream closed before the search finished');
+        // Bankr data for the remaining users will never arrive
+        setPendingFids([]);
+        setSearchInterrupted(true);
+      }
     } catch (err) {
+      // A new search or "New Search" cancelled this one
+      if (controller.signal.aborted) return;
+      // Return to the search form, where the error is shown
+      setSearchResults(null);
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
-      setIsLoading(false);
+      if (searchAbortRef.current === controller) {
+        searchAbortRef.current = null;
+        setSearchProgress(null);
+        setIsLoading(false);
+      }
     }
   };
 
@@ -124,7 +187,13 @@ export default function Home() {
     } catch {
       // Haptics failed, continue with action
     }
+    searchAbortRef.current?.abort();
+    searchAbortRef.current = null;
     setSearchResults(null);
+    setSearchProgress(null);
+    setSearchInterrupted(false);
+    setPendingFids([]);
+    setIsLoading(false);
     setError(null);
   };
 
@@ -385,6 +454,12 @@ export default function Home() {
             users={searchResults.users}
             searchedInputs={searchResults.searchedInputs}
             notFoundInputs={searchResults.notFoundInputs}
+            failedInputs={searchResults.failedInputs || []}
+            matches={searchResults.matches || []}
+            names={searchResults.names || {}}
+            progress={searchProgress}
+            interrupted={searchInterrupted}
+            pendingFids={pendingFids}
             onNewSearch={handleNewSearch}
           />
         )}
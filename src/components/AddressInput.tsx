@@ -1,7 +1,15 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-import { validateAddressOrUsername } from '@/lib/validation';
+import {
+  validateAddressOrUsername,
+  getSearchInputKey,
+  parseBulkInput,
+  BulkInputOptions,
+  BulkInputResult,
+  SearchInputValidation,
+  INPUT_PLATFORM_LABELS
+} from '@/lib/validation';
 
 interface AddressInputProps {
   onAddressSubmit: (inputs: string[]) => void;
@@ -9,10 +17,19 @@ interface AddressInputProps {
   disabled?: boolean;
 }
 
+// Allowlists are plain text; anything larger is almost certainly the wrong file
+const MAX_BULK_FILE_BYTES = 1024 * 1024;
+// Keep the error list readable for large pastes
+const MAX_BULK_ERRORS_SHOWN = 20;
+
 export default function AddressInput({ onAddressSubmit, isLoading = false, disabled = false }: AddressInputProps) {
   const [inputValue, setInputValue] = useState('');
   const [inputs, setInputs] = useState<string[]>([]);
-  const [validation, setValidation] = useState<{ isValid: boolean; type: 'ethereum' | 'solana' | 'farcaster' | 'fid' | 'x_username' | 'username' | null; error?: string } | null>(null);
+  const [validation, setValidation] = useState<SearchInputValidation | null>(null);
+  const [isBulkMode, setIsBulkMode] = useState(false);
+  const [bulkText, setBulkText] = useState('');
+  const [bulkResult, setBulkResult] = useState<BulkInputResult | null>(null);
+  const [bulkFileError, setBulkFileError] = useState<string | null>(null);
 
   const validateInput = useCallback((value: string) => {
     if (!value.trim()) {
@@ -40,9 +57,10 @@ export default function AddressInput({ onAddressSubmit, isLoading = false, disab
       return;
     }
 
-    // Check if input is already added
-    if (inputs.some(input => input.toLowerCase() === trimmedValue.toLowerCase())) {
-      setValidation({ isValid: false, type: null, error: 'Input already added' });
+    // Check if input is already added (a link counts as the identifier it contains)
+    const key = getSearchInputKey(trimmedValue);
+    if (inputs.some(input => getSearchInputKey(input) === key)) {
+      setValidation({ isValid: false, type: null, value: result.value, error: 'Input already added' });
       return;
     }
 
@@ -52,6 +70,38 @@ export default function AddressInput({ onAddressSubmit, isLoading = false, disab
     setValidation(null);
   };
 
+  const handleBulkAdd = (text: string, options: BulkInputOptions = {}) => {
+    const result = parseBulkInput(text, inputs, options);
+    setBulkResult(result);
+    setInputs([...inputs, ...result.valid]);
+    console.log(`📋 Bulk added ${result.valid.length} entries (${result.invalid.length} invalid, ${result.warnings.length} with warnings, ${result.duplicates.length} duplicates)`);
+
+    // Keep only the invalid entries in the textarea so they can be fixed and re-added
+    setBulkText(result.invalid.map(error => error.input).join('\n'));
+  };
+
+  const handleBulkFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so the same file can be picked again
+    e.target.value = '';
+    if (!file) return;
+
+    if (file.size > MAX_BULK_FILE_BYTES) {
+      setBulkFileError('File is too large (max 1 MB)');
+      return;
+    }
+
+    try {
+      setBulkFileError(null);
+      // CSV exports are read by column, so headers and amounts aren't added as usernames or FIDs
+      const isCsv = file.name.toLowerCase().endsWith('.csv') || file.type === 'text/csv';
+      handleBulkAdd(await file.text(), { csv: isCsv });
+    } catch (error) {
+      console.error('Failed to read bulk input file:', error);
+      setBulkFileError('Could not read file');
+    }
+  };
+
   const handleRemoveInput = (index: number) => {
     const newInputs = inputs.filter((_, i) => i !== index);
     setInputs(newInputs);
@@ -93,78 +143,231 @@ export default function AddressInput({ onAddressSubmit, isLoading = false, disab
     <div className="w-full max-w-2xl mx-auto space-y-4">
       <div className="space-y-2">
         <p className="text-sm text-gray-500 dark:text-gray-400">
-          Enter Ethereum/Solana addresses, Farcaster usernames, FIDs, or X usernames to find linked profiles
+          Enter Ethereum/Solana addresses, Farcaster usernames, FIDs, or X usernames to find linked profiles, or paste a profile or explorer link.
+          Prefix with <code>fc:</code>, <code>x:</code>, <code>fid:</code>, <code>eth:</code> or <code>sol:</code> to force a type,
+          or <code>both:</code> to search a username on Farcaster and X.
         </p>
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-4">
-        <div className="flex flex-col sm:flex-row gap-2">
-          <div className="flex-1">
-            <input
-              id="address-input"
-              type="text"
-              value={inputValue}
-              onChange={handleInputChange}
-              onKeyPress={handleKeyPress}
-              placeholder="Enter wallet address, username, FID, or X username"
+        {/* Mode toggle */}
+        <div className="flex gap-1 bg-gray-100 dark:bg-gray-700 rounded-lg p-1 w-fit">
+          {[false, true].map(bulk => (
+            <button
+              key={bulk ? 'bulk' : 'single'}
+              type="button"
+              onClick={() => setIsBulkMode(bulk)}
               disabled={disabled || isLoading}
+              className={`px-3 py-1.5 text-xs font-medium rounded-md transition-colors disabled:opacity-50
+                ${isBulkMode === bulk
+                  ? 'bg-white dark:bg-gray-800 text-gray-900 dark:text-white shadow-sm'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                }`}
+            >
+              {bulk ? 'Bulk paste / upload' : 'One at a time'}
+            </button>
+          ))}
+        </div>
+
+        {isBulkMode ? (
+          <div className="space-y-2">
+            <textarea
+              value={bulkText}
+              onChange={(e) => setBulkText(e.target.value)}
+              placeholder="Paste addresses, usernames or FIDs separated by commas, spaces or new lines"
+              disabled={disabled || isLoading}
+              rows={6}
               autoCapitalize="off"
               autoCorrect="off"
               spellCheck="false"
-              className={`w-full px-4 py-3 border rounded-lg text-sm transition-colors
-                ${validation === null 
-                  ? 'border-gray-300 dark:border-gray-600' 
-                  : validation.isValid 
-                    ? 'border-green-500 dark:border-green-400' 
-                    : 'border-red-500 dark:border-red-400'
-                }
-                bg-white dark:bg-gray-800 
+              className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-mono
+                bg-white dark:bg-gray-800
                 text-gray-900 dark:text-gray-100
                 placeholder-gray-500 dark:placeholder-gray-400
                 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400
-                disabled:opacity-50 disabled:cursor-not-allowed
-              `}
+                disabled:opacity-50 disabled:cursor-not-allowed"
             />
+            <div className="flex flex-col sm:flex-row gap-2">
+              <button
+                type="button"
+                onClick={() => handleBulkAdd(bulkText)}
+                disabled={!bulkText.trim() || disabled || isLoading}
+                className="px-4 py-3 bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300
+                           rounded-lg hover:bg-blue-200 dark:hover:bg-blue-800 transition-colors
+                           disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+              >
+                Add All
+              </button>
+              <label
+                className={`px-4 py-3 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300
+                           rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors
+                           text-sm font-medium text-center cursor-pointer
+                           ${disabled || isLoading ? 'opacity-50 pointer-events-none' : ''}`}
+              >
+                Upload .txt / .csv
+                <input
+                  type="file"
+                  accept=".txt,.csv,text/plain,text/csv"
+                  onChange={handleBulkFile}
+                  disabled={disabled || isLoading}
+                  className="hidden"
+                />
+              </label>
+            </div>
+
+            {bulkFileError && (
+              <p className="text-sm text-red-600 dark:text-red-400">{bulkFileError}</p>
+            )}
+
+            {/* Bulk parse feedback */}
+            {bulkResult && (
+              <div className="space-y-1 text-sm">
+                <p className="text-green-600 dark:text-green-400">
+                  Added {bulkResult.valid.length} entr{bulkResult.valid.length === 1 ? 'y' : 'ies'}
+                  {bulkResult.duplicates.length > 0 && (
+                    <span className="text-gray-500 dark:text-gray-400">
+                      {' '}· skipped {bulkResult.duplicates.length} duplicate{bulkResult.duplicates.length === 1 ? '' : 's'}
+                    </span>
+                  )}
+                </p>
+                {bulkResult.csv && (bulkResult.csv.header || bulkResult.csv.ignoredColumns > 0) && (
+                  <p className="text-gray-500 dark:text-gray-400">
+                    Read column {bulkResult.csv.column}
+                    {bulkResult.csv.header ? ` ("${bulkResult.csv.header}", header row skipped)` : ''} of the CSV
+                    {bulkResult.csv.ignoredColumns > 0 && `; ignored ${bulkResult.csv.ignoredColumns} other column${bulkResult.csv.ignoredColumns === 1 ? '' : 's'}`}
+                  </p>
+                )}
+                {bulkResult.warnings.length > 0 && (
+                  <div className="text-amber-600 dark:text-amber-400 space-y-0.5">
+                    <p>{bulkResult.warnings.length} added with warnings:</p>
+                    <ul className="space-y-0.5 max-h-40 overflow-y-auto">
+                      {bulkResult.warnings.slice(0, MAX_BULK_ERRORS_SHOWN).map((warning, index) => (
+                        <li key={`${warning.line}-${index}`} className="text-xs">
+                          Line {warning.line}: <span className="font-mono">{warning.input}</span> — {warning.error}
+                        </li>
+                      ))}
+                    </ul>
+                    {bulkResult.warnings.length > MAX_BULK_ERRORS_SHOWN && (
+                      <p className="text-xs">
+                        …and {bulkResult.warnings.length - MAX_BULK_ERRORS_SHOWN} more
+                      </p>
+                    )}
+                  </div>
+                )}
+                {bulkResult.invalid.length > 0 && (
+                  <div className="text-red-600 dark:text-red-400 space-y-0.5">
+                    <p>{bulkResult.invalid.length} invalid entr{bulkResult.invalid.length === 1 ? 'y' : 'ies'}:</p>
+                    <ul className="space-y-0.5 max-h-40 overflow-y-auto">
+                      {bulkResult.invalid.slice(0, MAX_BULK_ERRORS_SHOWN).map((error, index) => (
+                        <li key={`${error.line}-${index}`} className="text-xs">
+                          Line {error.line}: <span className="font-mono">{error.input}</span> — {error.error}
+                        </li>
+                      ))}
+                    </ul>
+                    {bulkResult.invalid.length > MAX_BULK_ERRORS_SHOWN && (
+                      <p className="text-xs">
+                        …and {bulkResult.invalid.length - MAX_BULK_ERRORS_SHOWN} more
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
+        ) : (
+          <div className="flex flex-col sm:flex-row gap-2">
+            <div className="flex-1">
+              <input
+                id="address-input"
+                type="text"
+                value={inputValue}
+                onChange={handleInputChange}
+                onKeyPress={handleKeyPress}
+                placeholder="Enter wallet address, username, FID, or X username"
+                disabled={disabled || isLoading}
+                autoCapitalize="off"
+                autoCorrect="off"
+                spellCheck="false"
+                className={`w-full px-4 py-3 border rounded-lg text-sm transition-colors
+                  ${validation === null 
+                    ? 'border-gray-300 dark:border-gray-600' 
+                    : !validation.isValid 
+                      ? 'border-red-500 dark:border-red-400'
+                      : validation.warning
+                        ? 'border-amber-500 dark:border-amber-400'
+                        : 'border-green-500 dark:border-green-400'
+                  }
+                  bg-white dark:bg-gray-800 
+                  text-gray-900 dark:text-gray-100
+                  placeholder-gray-500 dark:placeholder-gray-400
+                  focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400
+                  disabled:opacity-50 disabled:cursor-not-allowed
+                `}
+              />
+            </div>
           
-          {inputValue.trim() && validation?.isValid && (
-            <button
-              type="button"
-              onClick={handleAddInput}
-              disabled={disabled || isLoading}
-              className="px-4 py-3 bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 
-                         rounded-lg hover:bg-blue-200 dark:hover:bg-blue-800 transition-colors
-                         disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
-            >
-              Add
-            </button>
-          )}
-        </div>
+            {inputValue.trim() && validation?.isValid && (
+              <button
+                type="button"
+                onClick={handleAddInput}
+                disabled={disabled || isLoading}
+                className="px-4 py-3 bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 
+                           rounded-lg hover:bg-blue-200 dark:hover:bg-blue-800 transition-colors
+                           disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+              >
+                Add
+              </button>
+            )}
+          </div>
+        )}
 
         {/* Validation feedback */}
-        {validation && !validation.isValid && validation.error && (
+        {!isBulkMode && validation && !validation.isValid && validation.error && (
           <p className="text-sm text-red-600 dark:text-red-400">{validation.error}</p>
         )}
 
-        {validation && validation.isValid && (
+        {!isBulkMode && validation && validation.isValid && validation.warning && (
+          <p className="text-sm text-amber-600 dark:text-amber-400">{validation.warning}</p>
+        )}
+
+        {!isBulkMode && validation && validation.isValid && !validation.warning && (
           <p className="text-sm text-green-600 dark:text-green-400">
             Valid {
               validation.type === 'farcaster' ? 'Farcaster username' :
               validation.type === 'fid' ? 'FID' :
               validation.type === 'x_username' ? 'X username' :
               validation.type === 'username' ? 'username' :
+              validation.type === 'username_both' ? 'Farcaster + X username' :
+              validation.type === 'ens' ? 'ENS name' :
+              validation.type === 'basename' ? 'Basename' :
               `${validation.type} address`
             }
+            {validation.platform && (
+              <span className="text-gray-500 dark:text-gray-400">
+                {' '}from {INPUT_PLATFORM_LABELS[validation.platform]}: <span className="font-mono">{validation.value}</span>
+              </span>
+            )}
           </p>
         )}
 
         {/* Input list */}
         {inputs.length > 0 && (
           <div className="space-y-2">
-            <p className="text-sm font-medium text-gray-700 dark:text-gray-300">
-              Items to search ({inputs.length}):
-            </p>
-            <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Items to search ({inputs.length}):
+              </p>
+              <button
+                type="button"
+                onClick={() => setInputs([])}
+                disabled={disabled || isLoading}
+                className="text-xs text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400
+                           transition-colors disabled:opacity-50"
+              >
+                Clear all
+              </button>
+            </div>
+            <div className="space-y-1 max-h-80 overflow-y-auto">
               {inputs.map((input, index) => (
                 <div key={index} className="flex items-center justify-between bg-gray-50 dark:bg-gray-700 
                                              rounded-lg px-3 py-3 md:py-2">
@@ -0,0 +1,206 @@
+'use client';
+
+import { useState } from 'react';
+import { CHAINS, EvmChainKey } from '@/lib/chains';
+
+// NFT interfaces (kept here to avoid importing server-side code)
+interface NftItem {
+  token_id: string;
+  name: string;
+  image_url?: string;
+  balance: number;
+  owner: string;
+}
+
+interface NftCollection {
+  chain: EvmChainKey;
+  contract_address: string;
+  name: string;
+  symbol?: string;
+  token_type: 'ERC721' | 'ERC1155' | 'UNKNOWN';
+  image_url?: string;
+  owned_count: number;
+  nfts: NftItem[];
+}
+
+interface NftHoldingsResult {
+  collections: NftCollection[];
+  total_count: number;
+  error?: string;
+}
+
+interface NftHoldingsProps {
+  fid: number;
+  username: string;
+  bankrAddresses?: string[];
+}
+
+// Items shown per collection before it is expanded; /api/nfts caches images for these only
+const COLLAPSED_ITEMS = 6;
+
+function NftThumbnail({ nft }: { nft: NftItem }) {
+  const [failed, setFailed] = useState(false);
+
+  return (
+    <div className="relative aspect-square rounded-lg overflow-hidden bg-gradient-to-br from-blue-400 to-purple-500" title={nft.name}>
+      {nft.image_url && !failed ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={nft.image_url}
+          alt={nft.name}
+          className="w-full h-full object-cover"
+          loading="lazy"
+          onError={() => {
+            console.log(`❌ Failed to load NFT image for ${nft.name}: ${nft.image_url}`);
+            setFailed(true);
+          }}
+        />
+      ) : (
+        <div className="w-full h-full flex items-center justify-center p-1">
+          <span className="text-white text-[10px] font-semibold text-center line-clamp-2">{nft.name}</span>
+        </div>
+      )}
+      {nft.balance > 1 && (
+        <span className="absolute bottom-1 right-1 px-1 bg-black/60 text-white text-[10px] font-semibold rounded">
+          x{nft.balance}
+        </span>
+      )}
+    </div>
+  );
+}
+
+function CollectionGroup({ collection }: { collection: NftCollection }) {
+  const [expanded, setExpanded] = useState(false);
+  const visible = expanded ? collection.nfts : collection.nfts.slice(0, COLLAPSED_ITEMS);
+  const hidden = collection.nfts.length - visible.length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between min-w-0">
+        <div className="flex items-center space-x-2 min-w-0">
+          <span className="text-xs font-semibold text-gray-900 dark:text-white truncate">{collection.name}</span>
+          {collection.chain !== 'base' && (
+            <span className="px-1 py-0.5 bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 text-[10px] font-semibold rounded flex-shrink-0">
+              {CHAINS[collection.chain].shortName}
+            </span>
+          )}
+        </div>
+        <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0 ml-2">{collection.owned_count}</span>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        {visible.map(nft => (
+          <NftThumbnail key={`${nft.owner}-${nft.token_id}`} nft={nft} />
+        ))}
+      </div>
+      {(hidden > 0 || expanded) && collection.nfts.length > COLLAPSED_ITEMS && (
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="text-xs text-purple-700 dark:text-purple-300 font-medium"
+        >
+          {expanded ? 'Show less' : `+${hidden} more`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default function NftHoldings({ fid, username, bankrAddresses = [] }: NftHoldingsProps) {
+  const [open, setOpen] = useState(false);
+  const [nftData, setNftData] = useState<NftHoldingsResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // NFTs are only fetched the first time the section is opened
+  const fetchNfts = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      console.log(`NftHoldings: Fetching NFTs for FID ${fid} (@${username})`);
+
+      const params = new URLSearchParams({ fid: fid.toString() });
+      if (bankrAddresses.length > 0) {
+        params.set('bankrAddresses', bankrAddresses.join(','));
+      }
+
+      const response = await fetch(`/api/nfts?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const result: NftHoldingsResult = await response.json();
+      console.log(`NftHoldings: Received ${result.collections.length} collections for @${username}`);
+      setNftData(result);
+
+      if (result.error) {
+        setError(result.error);
+      }
+    } catch (err) {
+      console.error(`NftHoldings: Failed to fetch NFTs for @${username}:`, err);
+      setError(err instanceof Error ? err.message : 'Failed to load NFTs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggle = () => {
+    if (!open && !nftData && !loading) {
+      fetchNfts();
+    }
+    setOpen(!open);
+  };
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4 space-y-4 overflow-hidden w-full max-w-full">
+      <button
+        onClick={handleToggle}
+        className="w-full flex items-center justify-between min-w-0"
+        aria-expanded={open}
+      >
+        <h4 className="text-sm font-semibold text-gray-900 dark:text-white truncate">
+          NFTs
+        </h4>
+        <div className="flex items-center gap-2 flex-shrink-0 ml-2 text-xs text-gray-500 dark:text-gray-400">
+          {nftData && !nftData.error && (
+            <span>
+              {nftData.total_count} in {nftData.collections.length} collection{nftData.collections.length !== 1 ? 's' : ''}
+            </span>
+          )}
+          <span>{open ? '▲' : '▼'}</span>
+        </div>
+      </button>
+
+      {open && (
+        <>
+          {loading && (
+            <div className="grid grid-cols-3 gap-2">
+              {[...Array(6)].map((_, i) => (
+                <div key={i} className="aspect-square bg-gray-200 dark:bg-gray-600 rounded-lg animate-pulse" />
+              ))}
+            </div>
+          )}
+
+          {!loading && error && (
+            <div className="text-xs text-gray-500 dark:text-gray-400 text-center">
+              {error}
+            </div>
+          )}
+
+          {!loading && !error && nftData && nftData.collections.length === 0 && (
+            <div className="text-xs text-gray-500 dark:text-gray-400 text-center">
+              No NFTs found in connected wallets
+            </div>
+          )}
+
+          {!loading && !error && nftData && nftData.collections.length > 0 && (
+            <div className="space-y-4">
+              {nftData.collections.map(collection => (
+                <CollectionGroup key={`${collection.chain}-${collection.contract_address}`} collection={collection} />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
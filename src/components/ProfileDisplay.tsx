@@ -1,21 +1,61 @@
 'use client';
 
 import Image from 'next/image';
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { sdk } from '@farcaster/miniapp-sdk';
-import { FarcasterUser } from '@/lib/neynar';
+import { FarcasterUser, ResolutionPath, SearchMatch } from '@/lib/neynar';
 import { getExplorerUrl } from '@/lib/validation';
+import { downloadSearchResult, ExportFormat } from '@/lib/export';
+import { SearchProgress } from '@/lib/search-events';
+import type { AddressNames } from '@/lib/ens';
 import TokenBalances from './TokenBalances';
+import NftHoldings from './NftHoldings';
+import WalletRelationships from './WalletRelationships';
 
 interface ProfileDisplayProps {
   users: FarcasterUser[];
   searchedInputs: string[];
   notFoundInputs: string[];
+  failedInputs?: string[];
+  matches?: SearchMatch[];
+  names?: Record<string, AddressNames>;
+  // Live progress while a streamed search is running
+  progress?: SearchProgress | null;
+  // The stream closed before the search finished, so the results are incomplete
+  interrupted?: boolean;
+  pendingFids?: number[];
   onNewSearch: () => void;
 }
 
 
 
+const RESOLUTION_PATH_LABELS: Record<ResolutionPath, string> = {
+  custody_address: 'custody address',
+  verified_address: 'verified address',
+  farcaster_username: 'Farcaster username',
+  x_username: 'X username',
+  fid: 'FID',
+  ens: 'ENS name',
+  basename: 'Basename',
+  not_found: 'not found',
+  failed: 'lookup failed'
+};
+
+// Shorten long addresses for the "matched by" label
+function shortenMatchAddress(address: string): string {
+  return address.length > 12 ? `${address.slice(0, 6)}…${address.slice(-4)}` : address;
+}
+
+function formatMatchInput(match: SearchMatch): string {
+  if (match.type === 'ethereum' || match.type === 'solana') {
+    return shortenMatchAddress(match.input);
+  }
+  if (match.resolved_address && (match.path === 'ens' || match.path === 'basename')) {
+    return `${match.input} → ${shortenMatchAddress(match.resolved_address)}`;
+  }
+  return match.path === 'x_username' || match.path === 'farcaster_username' ? `@${match.input}` : match.input;
+}
+
 function formatNumber(num: number): string {
   if (num >= 1000000) {
     return (num / 1000000).toFixed(1) + 'M';
@@ -30,10 +70,16 @@ function truncateAddress(address: string): string {
   return `${address.slice(0, 6)}...${address.slice(-4)}`;
 }
 
-function UserProfile({ user, copiedAddress, copyToClipboard }: { 
+function UserProfile({ user, copiedAddress, copyToClipboard, isEnriching = false, matchedBy = [], addressNames = {} }: { 
   user: FarcasterUser; 
   copiedAddress: string | null;
   copyToClipboard: (text: string) => void;
+  // Primary ENS names / Basenames keyed by lowercase address
+  addressNames?: Record<string, AddressNames>;
+  // Search inputs that resolved to this user
+  matchedBy?: SearchMatch[];
+  // Streamed result whose Bankr data hasn't arrived yet
+  isEnriching?: boolean;
 }) {
   // Check if we're in a mini app environment using SDK context
   const isInMiniApp = async () => {
@@ -113,8 +159,50 @@ function UserProfile({ user, copiedAddress, copyToClipboard }: {
       behavior: 'smooth' 
     });
   };
+
+  // Primary ENS name (or Basename) shown next to an EVM address
+  const renderAddressName = (address: string | null | undefined) => {
+    const names = address ? addressNames[address.toLowerCase()] : undefined;
+    const name = names?.ens || names?.basename;
+    if (!name) return null;
+
+    return (
+      <span
+        className="text-xs text-gray-600 dark:text-gray-400 truncate"
+        title={[names?.ens, names?.basename].filter(Boolean).join(' · ')}
+      >
+        {name}
+      </span>
+    );
+  };
+
+  // Memoized so streamed updates don't hand TokenBalances a new array (and refetch) on every event
+  const farcasterBankrEvm = user.bankrData?.farcaster?.evmAddress;
+  const farcasterBankrSol = user.bankrData?.farcaster?.solanaAddress;
+  const twitterBankrEvm = user.bankrData?.twitter?.evmAddress;
+  const twitterBankrSol = user.bankrData?.twitter?.solanaAddress;
+  const bankrAddresses = useMemo(
+    () => [farcasterBankrEvm, farcasterBankrSol, twitterBankrEvm, twitterBankrSol].filter((address): address is string => !!address),
+    [farcasterBankrEvm, farcasterBankrSol, twitterBankrEvm, twitterBankrSol]
+  );
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4 md:p-6 space-y-4">
+      {/* Which inputs produced this profile */}
+      {matchedBy.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {matchedBy.map(match => (
+            <span
+              key={`${match.input}-${match.path}`}
+              title={match.input}
+              className="px-2 py-0.5 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 text-xs rounded-full"
+            >
+              matched by {formatMatchInput(match)} ({RESOLUTION_PATH_LABELS[match.path]})
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Header with avatar and basic info */}
       <div className="flex items-start space-x-4">
         <div className="relative">
@@ -270,18 +358,46 @@ function UserProfile({ user, copiedAddress, copyToClipboard }: {
 
       {/* Token Holdings */}
       <div className="border-t border-gray-200 dark:border-gray-600 pt-4">
-        <TokenBalances 
-          fid={user.fid} 
-          username={user.username}
-          bankrAddresses={[
-            ...(user.bankrData?.farcaster?.evmAddress ? [user.bankrData.farcaster.evmAddress] : []),
-            ...(user.bankrData?.farcaster?.solanaAddress ? [user.bankrData.farcaster.solanaAddress] : []),
-            ...(user.bankrData?.twitter?.evmAddress ? [user.bankrData.twitter.evmAddress] : []),
-            ...(user.bankrData?.twitter?.solanaAddress ? [user.bankrData.twitter.solanaAddress] : [])
-          ]}
-        />
+        {isEnriching ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 flex items-center gap-2">
+            <span className="w-3 h-3 border-2 border-gray-400 border-t-transparent rounded-full animate-spin" />
+            Loading Bankr wallets...
+          </p>
+        ) : (
+          <TokenBalances 
+            fid={user.fid} 
+            username={user.username}
+            bankrAddresses={bankrAddresses}
+            wallets={[
+              ...(user.custody_address ? [{ address: user.custody_address, label: 'Custody' }] : []),
+              ...(user.verified_addresses?.eth_addresses || []).map((address, index, all) => ({
+                address,
+                label: all.length > 1 ? `Verified ETH ${index + 1}` : 'Verified ETH'
+              })),
+              ...(user.verified_addresses?.sol_addresses || []).map((address, index, all) => ({
+                address,
+                label: all.length > 1 ? `Verified SOL ${index + 1}` : 'Verified SOL'
+              })),
+              ...(user.bankrData?.farcaster?.evmAddress ? [{ address: user.bankrData.farcaster.evmAddress, label: 'Farcaster Bankr (EVM)' }] : []),
+              ...(user.bankrData?.farcaster?.solanaAddress ? [{ address: user.bankrData.farcaster.solanaAddress, label: 'Farcaster Bankr (SOL)' }] : []),
+              ...(user.bankrData?.twitter?.evmAddress ? [{ address: user.bankrData.twitter.evmAddress, label: 'X Bankr (EVM)' }] : []),
+              ...(user.bankrData?.twitter?.solanaAddress ? [{ address: user.bankrData.twitter.solanaAddress, label: 'X Bankr (SOL)' }] : [])
+            ]}
+          />
+        )}
       </div>
 
+      {/* NFT Holdings (after Bankr wallets are known, so they are included) */}
+      {!isEnriching && (
+        <div className="border-t border-gray-200 dark:border-gray-600 pt-4">
+          <NftHoldings
+            fid={user.fid}
+            username={user.username}
+            bankrAddresses={bankrAddresses}
+          />
+        </div>
+      )}
+
       {/* Verified Addresses */}
       {(user.verified_addresses?.eth_addresses?.length > 0 || user.verified_addresses?.sol_addresses?.length > 0 || user.custody_address) && (
         <div className="space-y-2 border-t border-gray-200 dark:border-gray-600 pt-4" data-section="verified-addresses">
@@ -306,6 +422,7 @@ function UserProfile({ user, copiedAddress, copyToClipboard }: {
                   >
                     {truncateAddress(user.verified_addresses.primary!.eth_address!)}
                   </button>
+                  {renderAddressName(user.verified_addresses.primary!.eth_address)}
                   <span className="px-1.5 py-0.5 bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-300 
                                text-xs font-medium rounded">
                     Primary
@@ -382,6 +499,7 @@ function UserProfile({ user, copiedAddress, copyToClipboard }: {
                   >
                     {truncateAddress(user.custody_address)}
                   </button>
+                  {renderAddressName(user.custody_address)}
                   <span className="px-1.5 py-0.5 bg-purple-100 dark:bg-purple-900 text-purple-700 dark:text-purple-300 
                                text-xs font-medium rounded">
                     Custody
@@ -421,6 +539,7 @@ function UserProfile({ user, copiedAddress, copyToClipboard }: {
                   >
                     {truncateAddress(address)}
                   </button>
+                  {renderAddressName(address)}
                 </div>
                 <button
                   onClick={() => copyToClipboard(address)}
@@ -524,6 +643,7 @@ function UserProfile({ user, copiedAddress, copyToClipboard }: {
                     >
                       {truncateAddress(user.bankrData?.farcaster?.evmAddress || '')}
                     </button>
+                    {renderAddressName(user.bankrData?.farcaster?.evmAddress)}
                   </div>
                   <button
                     onClick={() => copyToClipboard(user.bankrData?.farcaster?.evmAddress || '')}
@@ -611,6 +731,7 @@ function UserProfile({ user, copiedAddress, copyToClipboard }: {
                     >
                       {truncateAddress(user.bankrData?.twitter?.evmAddress || '')}
                     </button>
+                    {renderAddressName(user.bankrData?.twitter?.evmAddress)}
                   </div>
                   <button
                     onClick={() => copyToClipboard(user.bankrData?.twitter?.evmAddress || '')}
@@ -669,7 +790,18 @@ function UserProfile({ user, copiedAddress, copyToClipboard }: {
   );
 }
 
-export default function ProfileDisplay({ users, notFoundInputs, onNewSearch }: ProfileDisplayProps) {
+export default function ProfileDisplay({
+  users,
+  searchedInputs,
+  notFoundInputs,
+  failedInputs = [],
+  matches = [],
+  names = {},
+  progress = null,
+  interrupted = false,
+  pendingFids = [],
+  onNewSearch
+}: ProfileDisplayProps) {
   const [copiedAddress, setCopiedAddress] = useState<string | null>(null);
 
   // Check if we're in a mini app environment using SDK context
@@ -713,7 +845,12 @@ export default function ProfileDisplay({ users, notFoundInputs, onNewSearch }: P
     }
   };
 
-  if (users.length === 0 && notFoundInputs.length === 0) {
+  const exportResults = (format: ExportFormat) => {
+    console.log(`📤 Exporting ${users.length} profiles as ${format.toUpperCase()}`);
+    downloadSearchResult({ users, searchedInputs, notFoundInputs, failedInputs, matches, names }, format);
+  };
+
+  if (users.length === 0 && notFoundInputs.length === 0 && failedInputs.length === 0 && !progress && !interrupted) {
     return null;
   }
 
@@ -735,6 +872,67 @@ export default function ProfileDisplay({ users, notFoundInputs, onNewSearch }: P
         </button>
       </div>
 
+      {/* Streaming progress */}
+      {progress && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4 space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="flex items-center gap-2 font-medium text-gray-900 dark:text-white">
+              <span className="w-3 h-3 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+              Searching...
+            </span>
+            <span className="text-gray-600 dark:text-gray-400">
+              {progress.inputs_done} / {progress.inputs_total} inputs
+              {progress.users_total > 0 && ` · Bankr ${progress.users_enriched} / ${progress.users_total}`}
+            </span>
+          </div>
+          <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-500 transition-all duration-300"
+              style={{
+                // Lookups and Bankr enrichment each count for half of the bar
+                width: `${Math.round(
+                  50 * (progress.inputs_done / Math.max(progress.inputs_total, 1)) +
+                  50 * (progress.users_total > 0 ? progress.users_enriched / progress.users_total : progress.inputs_done / Math.max(progress.inputs_total, 1))
+                )}%`
+              }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Interrupted search */}
+      {interrupted && (
+        <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-4">
+          <h3 className="text-sm font-medium text-amber-800 dark:text-amber-200">
+            ⚠️ Search interrupted
+          </h3>
+          <p className="mt-1 text-sm text-amber-700 dark:text-amber-300">
+            The connection closed before every input was searched, so these results are incomplete. Run the search again to get the rest.
+          </p>
+        </div>
+      )}
+
+      {/* Export results */}
+      {!progress && (
+        <div className="flex justify-center gap-2">
+          {(['csv', 'json'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => exportResults(format)}
+              className="px-4 py-2 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600
+                       text-gray-700 dark:text-gray-300 rounded-lg transition-colors text-sm font-medium
+                       flex items-center gap-1.5"
+            >
+              <span>⬇️</span>
+              <span>Export {format.toUpperCase()}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Addresses shared between the found profiles */}
+      <WalletRelationships users={users} />
+
       {/* Found profiles */}
       {users.length > 0 && (
         <div className="space-y-4">
@@ -748,6 +946,9 @@ export default function ProfileDisplay({ users, notFoundInputs, onNewSearch }: P
                 user={user} 
                 copiedAddress={copiedAddress}
                 copyToClipboard={copyToClipboard}
+                isEnriching={pendingFids.includes(user.fid)}
+                matchedBy={matches.filter(match => match.fids.includes(user.fid))}
+                addressNames={names}
               />
             ))}
           </div>
@@ -784,6 +985,33 @@ export default function ProfileDisplay({ users, notFoundInputs, onNewSearch }: P
           </div>
         </div>
       )}
+
+      {/* Inputs whose lookup failed upstream */}
+      {failedInputs.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Lookup Failed ({failedInputs.length})
+          </h3>
+          <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-4">
+            <p className="text-sm text-amber-800 dark:text-amber-300 mb-3">
+              These inputs couldn&apos;t be checked, usually because of rate limiting. Search them again to retry:
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {failedInputs.map((failedItem: string, index: number) => (
+                <button
+                  key={index}
+                  onClick={() => copyToClipboard(failedItem)}
+                  className="px-2 py-1 bg-white dark:bg-gray-700 border border-amber-200 dark:border-amber-700
+                             rounded-md font-mono text-xs text-gray-700 dark:text-gray-300"
+                  title="Copy"
+                >
+                  {failedItem} {copiedAddress === failedItem ? '✅' : '📋'}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 } 
\ No newline at end of file
@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react';
 import { useAccount, useWriteContract } from 'wagmi';
 import { parseUnits } from 'viem';
+import { base } from 'wagmi/chains';
 import { USDC_CONTRACT_ADDRESS, TIP_ADDRESS } from '@/lib/wagmi';
 
 // ERC-20 transfer function ABI
@@ -60,6 +61,7 @@ export default function TipDev({ onTransactionSuccess }: TipDevProps) {
       abi: ERC20_ABI,
       functionName: 'transfer',
       args: [TIP_ADDRESS as `0x${string}`, amount],
+      chainId: base.id, // USDC contract address is Base-specific
     });
   };
 
@@ -4,8 +4,18 @@ import { useState, useEffect } from 'react';
 import Image from 'next/image';
 import { sdk } from '@farcaster/miniapp-sdk';
 import { getExplorerUrl } from '@/lib/validation';
+import { CHAINS, ChainKey } from '@/lib/chains';
 
 // Token balance interfaces (moved here to avoid importing server-side code)
+type TokenSource = 'neynar' | 'rpc' | 'bankr';
+
+interface TokenWalletBalance {
+  address: string;
+  source: TokenSource;
+  balance: string;
+  value_usd: number;
+}
+
 interface TokenBalance {
   token_address: string;
   token_name: string;
@@ -15,26 +25,75 @@ interface TokenBalance {
   price_usd?: number;
   value_usd?: number;
   logo_url?: string;
+  chain: ChainKey;
+  source: TokenSource;
+  wallets: TokenWalletBalance[];
+}
+
+type PositionType = 'lending' | 'lp' | 'vault' | 'staked';
+
+interface DefiPosition extends TokenBalance {
+  position_type: PositionType;
+  protocol: string;
+  underlying: Array<{
+    token_address: string;
+    token_symbol: string;
+    balance: string;
+    value_usd: number;
+  }>;
 }
 
 interface TokenBalanceResult {
   fid: number;
   tokens: TokenBalance[];
+  total_count: number;
   total_value_usd: number;
+  chain_totals?: Partial<Record<ChainKey, number>>;
+  positions: DefiPosition[];
+  positions_value_usd: number;
+  token_discovery?: 'indexed' | 'recent';
   error?: string;
 }
 
+interface WalletLabel {
+  address: string;
+  label: string;
+}
+
+interface WalletGroup {
+  address: string;
+  label: string;
+  tokens: TokenBalance[];
+  total_value_usd: number;
+}
+
 interface TokenBalancesProps {
   fid: number;
   username: string;
   bankrAddresses?: string[];
+  // Known wallets for this user (custody, verified, Bankr) used by the per-wallet view
+  wallets?: WalletLabel[];
 }
 
 interface TokenRowProps {
-  token: TokenBalance;
+  token: TokenBalance | DefiPosition;
   index: number;
 }
 
+const POSITION_TYPE_LABELS: Record<PositionType, string> = {
+  lending: 'Lending',
+  lp: 'LP',
+  vault: 'Vault',
+  staked: 'Staked',
+};
+
+type ViewMode = 'combined' | 'wallet';
+
+// Holdings fetched per page; "Show more" loads the next page
+const PAGE_SIZE = 10;
+// Largest page /api/balance serves (MAX_TOKEN_LIMIT), used when loading every holding
+const MAX_PAGE_SIZE = 100;
+
 // Haptic feedback functions (similar to ProfileDisplay)
 const isInMiniApp = async () => {
   try {
@@ -98,13 +157,33 @@ const handleExternalLink = async (url: string) => {
   window.open(url, '_blank', 'noopener,noreferrer');
 };
 
-const openTokenExplorer = (tokenAddress: string) => {
-  const { url } = getExplorerUrl(tokenAddress);
+// Build the /api/balance URL for one page of holdings
+const buildBalanceUrl = (fid: number, bankrAddresses: string[], offset: number, limit: number = PAGE_SIZE): string => {
+  const params = new URLSearchParams({
+    fid: fid.toString(),
+    limit: limit.toString(),
+    offset: offset.toString()
+  });
+  if (bankrAddresses.length > 0) {
+    params.set('bankrAddresses', bankrAddresses.join(','));
+  }
+  return `/api/balance?${params.toString()}`;
+};
+
+const openTokenExplorer = (token: TokenBalance) => {
+  // Native balances have no contract page, so show the holding wallet instead
+  const { url } = token.token_address === 'native'
+    ? getExplorerUrl(token.wallets[0]?.address || '', token.chain, 'address')
+    : getExplorerUrl(token.token_address, token.chain, 'token');
   if (url) {
     handleExternalLink(url);
   }
 };
 
+const formatWalletAddress = (address: string): string => {
+  return address.length > 12 ? `${address.slice(0, 6)}...${address.slice(-4)}` : address;
+};
+
 function TokenRow({ token, index }: TokenRowProps) {
   const formatBalance = (balance: string): string => {
     try {
@@ -144,9 +223,12 @@ function TokenRow({ token, index }: TokenRowProps) {
 
   return (
     <button
-      onClick={() => openTokenExplorer(token.token_address)}
+      onClick={() => openTokenExplorer(token)}
       className="w-full flex items-center justify-between p-3 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-lg transition-colors min-w-0 cursor-pointer hover:shadow-sm"
-      title={`View ${token.token_name} contract on BaseScan`}
+      title={[
+        `View ${token.token_name} on ${CHAINS[token.chain].explorer.name}`,
+        ...token.wallets.map(wallet => `${formatWalletAddress(wallet.address)} (${wallet.source}): ${formatBalance(wallet.balance)} • ${formatUsdValue(wallet.value_usd)}`)
+      ].join('\n')}
     >
       <div className="flex items-center space-x-3 flex-1 min-w-0 overflow-hidden">
         {/* Token Icon */}
@@ -188,9 +270,31 @@ function TokenRow({ token, index }: TokenRowProps) {
           </div>
           <div className="flex items-center space-x-2 text-xs text-gray-600 dark:text-gray-300 min-w-0">
             <span className="font-mono truncate max-w-[80px] sm:max-w-[120px]">{token.token_symbol}</span>
+            {token.chain !== 'base' && (
+              <span className="px-1 py-0.5 bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 text-[10px] font-semibold rounded flex-shrink-0">
+                {CHAINS[token.chain].shortName}
+              </span>
+            )}
             <span className="flex-shrink-0">•</span>
             <span className="truncate max-w-[60px] sm:max-w-[100px]">{formatBalance(token.balance)}</span>
+            {token.wallets.length > 1 && (
+              <span className="text-gray-500 dark:text-gray-400 flex-shrink-0">
+                {token.wallets.length} wallets
+              </span>
+            )}
           </div>
+          {'position_type' in token && (
+            <div className="flex items-center space-x-2 text-xs text-gray-500 dark:text-gray-400 min-w-0">
+              <span className="px-1 py-0.5 bg-purple-100 dark:bg-purple-900 text-purple-700 dark:text-purple-200 text-[10px] font-semibold rounded flex-shrink-0">
+                {POSITION_TYPE_LABELS[token.position_type]}
+              </span>
+              <span className="truncate">
+                {token.underlying.length > 0
+                  ? token.underlying.map(u => `${formatBalance(u.balance)} ${u.token_symbol}`).join(' + ')
+                  : token.protocol}
+              </span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -204,6 +308,55 @@ function TokenRow({ token, index }: TokenRowProps) {
   );
 }
 
+/**
+ * Split aggregated holdings back into one group per wallet, using each token's wallet breakdown
+ * Labelled wallets come first in the order given; any other wallet is labelled by its address
+ * @param tokens - Aggregated token balances
+ * @param walletLabels - Known wallets and their labels
+ * @returns Wallet groups with holdings sorted by USD value
+ */
+function groupTokensByWallet(tokens: TokenBalance[], walletLabels: WalletLabel[]): WalletGroup[] {
+  const groups = new Map<string, WalletGroup>();
+
+  // The same address can be e.g. both custody and verified, so merge its labels
+  for (const { address, label } of walletLabels) {
+    const key = address.toLowerCase();
+    const existing = groups.get(key);
+    if (existing) {
+      existing.label = `${existing.label} · ${label}`;
+    } else {
+      groups.set(key, { address, label, tokens: [], total_value_usd: 0 });
+    }
+  }
+
+  for (const token of tokens) {
+    for (const wallet of token.wallets) {
+      const key = wallet.address.toLowerCase();
+      let group = groups.get(key);
+      if (!group) {
+        group = { address: wallet.address, label: formatWalletAddress(wallet.address), tokens: [], total_value_usd: 0 };
+        groups.set(key, group);
+      }
+
+      group.tokens.push({
+        ...token,
+        balance: wallet.balance,
+        value_usd: wallet.value_usd,
+        source: wallet.source,
+        wallets: [wallet]
+      });
+      group.total_value_usd += wallet.value_usd;
+    }
+  }
+
+  return Array.from(groups.values())
+    .filter(group => group.tokens.length > 0)
+    .map(group => ({
+      ...group,
+      tokens: group.tokens.sort((a, b) => (b.value_usd || 0) - (a.value_usd || 0))
+    }));
+}
+
 function LoadingSkeleton() {
   return (
     <div className="space-y-3">
@@ -221,10 +374,12 @@ function LoadingSkeleton() {
   );
 }
 
-export default function TokenBalances({ fid, username, bankrAddresses = [] }: TokenBalancesProps) {
+export default function TokenBalances({ fid, username, bankrAddresses = [], wallets = [] }: TokenBalancesProps) {
   const [balanceData, setBalanceData] = useState<TokenBalanceResult | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>('combined');
+  const [loadingMore, setLoadingMore] = useState(false);
   
   const handleShare = async () => {
     try {
@@ -256,7 +411,14 @@ export default function TokenBalances({ fid, username, bankrAddresses = [] }: To
     }
   };
 
+  // Depend on the addresses' contents, not the array identity, so parent re-renders don't refetch
+  const bankrAddressKey = bankrAddresses.join(',');
+
   useEffect(() => {
+    // Abort the previous run when the inputs change, so a stale response can't overwrite a newer one
+    const controller = new AbortController();
+    const addresses = bankrAddressKey ? bankrAddressKey.split(',') : [];
+
     const fetchBalances = async () => {
       try {
         setLoading(true);
@@ -264,14 +426,11 @@ export default function TokenBalances({ fid, username, bankrAddresses = [] }: To
         
         console.log(`TokenBalances: Fetching balances for FID ${fid} (@${username})`);
         
-        // Build query parameters
-        const params = new URLSearchParams({ fid: fid.toString() });
-        if (bankrAddresses.length > 0) {
-          params.set('bankrAddresses', bankrAddresses.join(','));
-          console.log(`TokenBalances: Including ${bankrAddresses.length} Bankr addresses: ${bankrAddresses.join(', ')}`);
+        if (addresses.length > 0) {
+          console.log(`TokenBalances: Including ${addresses.length} Bankr addresses: ${addresses.join(', ')}`);
         }
         
-        const response = await fetch(`/api/balance?${params.toString()}`);
+        const response = await fetch(buildBalanceUrl(fid, addresses, 0), { signal: controller.signal });
         
         if (!response.ok) {
           throw new Error(`HTTP ${response.status}: ${response.statusText}`);
@@ -287,15 +446,74 @@ export default function TokenBalances({ fid, username, bankrAddresses = [] }: To
           setError(result.error);
         }
       } catch (err) {
+        if (controller.signal.aborted) return;
         console.error(`TokenBalances: Failed to fetch balances for @${username}:`, err);
         setError(err instanceof Error ? err.message : 'Failed to load token balances');
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
       }
     };
 
     fetchBalances();
-  }, [fid, username, bankrAddresses]);
+    return () => controller.abort();
+  }, [fid, username, bankrAddressKey]);
+
+  const handleShowMore = async () => {
+    if (!balanceData || loadingMore) return;
+
+    try {
+      await triggerHaptic();
+      setLoadingMore(true);
+
+      const response = await fetch(buildBalanceUrl(fid, bankrAddresses, balanceData.tokens.length));
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const result: TokenBalanceResult = await response.json();
+      console.log(`TokenBalances: Loaded ${result.tokens.length} more tokens for @${username}`);
+      setBalanceData({
+        ...result,
+        tokens: balanceData.tokens.concat(result.tokens)
+      });
+    } catch (err) {
+      console.error(`TokenBalances: Failed to load more balances for @${username}:`, err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // The by-wallet view splits holdings per wallet, so its subtotals need every page loaded
+  // (pages after the first are sliced from the server's cached holdings)
+  const loadAllPages = async () => {
+    if (!balanceData || loadingMore || balanceData.tokens.length >= balanceData.total_count) return;
+
+    try {
+      setLoadingMore(true);
+
+      let result = balanceData;
+      let tokens = balanceData.tokens;
+      while (tokens.length < result.total_count) {
+        const response = await fetch(buildBalanceUrl(fid, bankrAddresses, tokens.length, MAX_PAGE_SIZE));
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        result = await response.json();
+        if (result.tokens.length === 0) break;
+        tokens = tokens.concat(result.tokens);
+      }
+
+      console.log(`TokenBalances: Loaded all ${tokens.length} tokens for @${username}`);
+      setBalanceData({ ...result, tokens });
+    } catch (err) {
+      console.error(`TokenBalances: Failed to load all balances for @${username}:`, err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
   // Don't render anything if loading and no data yet
   if (loading && !balanceData) {
@@ -313,18 +531,28 @@ export default function TokenBalances({ fid, username, bankrAddresses = [] }: To
   }
 
   // Don't render if error and no data
-  if (error && (!balanceData || balanceData.tokens.length === 0)) {
+  if (error && (!balanceData || (balanceData.tokens.length === 0 && balanceData.positions.length === 0))) {
     console.log(`TokenBalances: Not rendering due to error with no data for @${username}:`, error);
     return null; // Graceful degradation - don't show error UI
   }
 
   // Don't render if no tokens
-  if (!balanceData || balanceData.tokens.length === 0) {
+  if (!balanceData || (balanceData.tokens.length === 0 && balanceData.positions.length === 0)) {
     console.log(`TokenBalances: No tokens found for @${username}, not rendering component`);
     return null; // Graceful degradation - don't show empty state
   }
 
   const totalValue = balanceData.total_value_usd;
+  const walletGroups = viewMode === 'wallet' ? groupTokensByWallet([...balanceData.tokens, ...balanceData.positions], wallets) : [];
+  const hasAllTokens = balanceData.tokens.length >= balanceData.total_count;
+
+  const handleViewModeChange = async (mode: ViewMode) => {
+    await triggerHaptic();
+    setViewMode(mode);
+    if (mode === 'wallet') {
+      loadAllPages();
+    }
+  };
 
   return (
     <div className="bg-gray-50 dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4 space-y-4 overflow-hidden w-full max-w-full">
@@ -352,27 +580,137 @@ export default function TokenBalances({ fid, username, bankrAddresses = [] }: To
               ${totalValue > 0 ? totalValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : '0.00'}
             </div>
             <div className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
-              {balanceData.tokens.length} token{balanceData.tokens.length !== 1 ? 's' : ''}
+              {balanceData.total_count} token{balanceData.total_count !== 1 ? 's' : ''}
             </div>
           </div>
         </div>
       </div>
 
-      {/* Token List */}
-      <div className="space-y-1 overflow-hidden w-full">
-        {balanceData.tokens.map((token, index) => (
-          <div key={`${token.token_address}-${index}`} className="w-full max-w-full overflow-hidden">
-            <TokenRow
-              token={token}
-              index={index}
-            />
-          </div>
+      {/* Per-chain totals */}
+      {balanceData.chain_totals && Object.keys(balanceData.chain_totals).length > 1 && (
+        <div className="flex flex-wrap gap-1.5">
+          {(Object.entries(balanceData.chain_totals) as Array<[ChainKey, number]>)
+            .sort(([, a], [, b]) => b - a)
+            .map(([chain, value]) => (
+              <span
+                key={chain}
+                className="px-2 py-0.5 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-xs text-gray-700 dark:text-gray-300 rounded-full whitespace-nowrap"
+              >
+                {CHAINS[chain].name}: ${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+              </span>
+            ))}
+        </div>
+      )}
+
+      {/* View toggle */}
+      <div className="flex bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg p-0.5 text-xs font-medium">
+        {([['combined', 'All wallets'], ['wallet', 'By wallet']] as Array<[ViewMode, string]>).map(([mode, label]) => (
+          <button
+            key={mode}
+            onClick={() => handleViewModeChange(mode)}
+            className={`flex-1 px-3 py-1 rounded-md transition-colors ${
+              viewMode === mode
+                ? 'bg-purple-100 dark:bg-purple-900 text-purple-700 dark:text-purple-200'
+                : 'text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600'
+            }`}
+          >
+            {label}
+          </button>
         ))}
       </div>
 
+      {/* Token List */}
+      {viewMode === 'combined' ? (
+        <div className="space-y-1 overflow-hidden w-full">
+          {balanceData.tokens.map((token, index) => (
+            <div key={`${token.chain}-${token.token_address}-${index}`} className="w-full max-w-full overflow-hidden">
+              <TokenRow
+                token={token}
+                index={index}
+              />
+            </div>
+          ))}
+        </div>
+      ) : !hasAllTokens && loadingMore ? (
+        <LoadingSkeleton />
+      ) : (
+        <div className="space-y-4 overflow-hidden w-full">
+          {!hasAllTokens && (
+            <p className="px-3 text-xs text-amber-600 dark:text-amber-400">
+              Wallet totals only cover the {balanceData.tokens.length} of {balanceData.total_count} holdings loaded so far
+            </p>
+          )}
+          {walletGroups.map(group => (
+            <div key={group.address} className="space-y-1 w-full max-w-full overflow-hidden">
+              <div className="flex items-center justify-between px-3 min-w-0">
+                <div className="min-w-0">
+                  <div className="text-xs font-semibold text-gray-700 dark:text-gray-300 truncate">
+                    {group.label}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 font-mono truncate">
+                    {formatWalletAddress(group.address)}
+                  </div>
+                </div>
+                <div className="text-xs font-semibold text-gray-900 dark:text-white whitespace-nowrap ml-2">
+                  ${group.total_value_usd.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                </div>
+              </div>
+              {group.tokens.map((token, index) => (
+                <div key={`${group.address}-${token.chain}-${token.token_address}`} className="w-full max-w-full overflow-hidden">
+                  <TokenRow
+                    token={token}
+                    index={index}
+                  />
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* DeFi positions */}
+      {viewMode === 'combined' && balanceData.positions.length > 0 && (
+        <div className="space-y-1 overflow-hidden w-full pt-2 border-t border-gray-200 dark:border-gray-600">
+          <div className="flex items-center justify-between px-3 min-w-0">
+            <h5 className="text-xs font-semibold text-gray-700 dark:text-gray-300">
+              Positions
+            </h5>
+            <div className="text-xs font-semibold text-gray-900 dark:text-white whitespace-nowrap ml-2">
+              ${balanceData.positions_value_usd.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+            </div>
+          </div>
+          {balanceData.positions.map((position, index) => (
+            <div key={`${position.chain}-${position.token_address}`} className="w-full max-w-full overflow-hidden">
+              <TokenRow
+                token={position}
+                index={index}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Show more */}
+      {!hasAllTokens && !(viewMode === 'wallet' && loadingMore) && (
+        <button
+          onClick={viewMode === 'wallet' ? loadAllPages : handleShowMore}
+          disabled={loadingMore}
+          className="w-full px-3 py-2 text-xs font-semibold text-purple-700 dark:text-purple-200 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors disabled:opacity-50"
+        >
+          {loadingMore
+            ? 'Loading...'
+            : `Show more (${balanceData.total_count - balanceData.tokens.length} remaining)`}
+        </button>
+      )}
+
       {/* Footer note */}
       <div className="text-xs text-gray-500 dark:text-gray-400 text-center pt-2 border-t border-gray-200 dark:border-gray-600">
-        Showing top {balanceData.tokens.length} legitimate holdings on Base network
+        Showing top {balanceData.tokens.length} of {balanceData.total_count} legitimate holdings across {Object.values(CHAINS).map(chain => chain.name).join(', ')}
+        {balanceData.token_discovery === 'recent' && (
+          <div className="mt-1">
+            Only tokens received recently or on the known token list are found on EVM chains; older holdings may be missing
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,82 @@
+'use client';
+
+import { FarcasterUser } from '@/lib/neynar';
+import { analyzeRelationships, ADDRESS_ROLE_LABELS } from '@/lib/relationships';
+
+interface WalletRelationshipsProps {
+  users: FarcasterUser[];
+}
+
+function truncateAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+export default function WalletRelationships({ users }: WalletRelationshipsProps) {
+  if (users.length < 2) {
+    return null;
+  }
+
+  const graph = analyzeRelationships(users);
+  if (graph.links.length === 0) {
+    return null;
+  }
+
+  const usernames = new Map(users.map(user => [user.fid, user.username]));
+  const label = (fid: number) => `@${usernames.get(fid) || fid}`;
+
+  return (
+    <div className="bg-amber-50 dark:bg-amber-900/20 rounded-xl border border-amber-200 dark:border-amber-800 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Linked Profiles
+        </h3>
+        <span className="text-xs text-gray-600 dark:text-gray-400">
+          {graph.shared_addresses.length} shared address{graph.shared_addresses.length !== 1 ? 'es' : ''}
+        </span>
+      </div>
+
+      {graph.clusters.map((cluster, clusterIndex) => (
+        <div key={clusterIndex} className="space-y-2">
+          <div className="flex flex-wrap gap-1.5">
+            {cluster.map(fid => (
+              <span
+                key={fid}
+                className="px-2 py-0.5 bg-white dark:bg-gray-700 border border-amber-200 dark:border-amber-700 text-xs font-medium text-gray-900 dark:text-white rounded-full"
+              >
+                {label(fid)}
+              </span>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            {graph.links
+              .filter(link => cluster.includes(link.source_fid))
+              .map(link => (
+                <div
+                  key={`${link.source_fid}-${link.target_fid}`}
+                  className="bg-white dark:bg-gray-800 rounded-lg px-3 py-2 border border-gray-200 dark:border-gray-700 space-y-1"
+                >
+                  <div className="text-sm font-medium text-gray-900 dark:text-white">
+                    {label(link.source_fid)} ↔ {label(link.target_fid)}
+                  </div>
+                  {link.shared.map(shared => (
+                    <div
+                      key={`${shared.address}-${shared.source_role}-${shared.target_role}`}
+                      className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400 min-w-0"
+                    >
+                      <span className="font-mono truncate" title={shared.address}>
+                        {truncateAddress(shared.address)}
+                      </span>
+                      <span className="flex-shrink-0 ml-2">
+                        {ADDRESS_ROLE_LABELS[shared.source_role]} ↔ {ADDRESS_ROLE_LABELS[shared.target_role]}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
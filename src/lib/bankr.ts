@@ -1,3 +1,9 @@
+import { createLimiter, withRateLimitRetry } from './concurrency';
+
+// Cap on Bankr requests in flight, shared by every search
+const BANKR_CONCURRENCY = 5;
+const bankrLimit = createLimiter(BANKR_CONCURRENCY);
+
 interface BankrResponse {
   username: string;
   platform: string;
@@ -12,9 +18,15 @@ export async function getBankrWalletData(
   platform: 'twitter' | 'farcaster'
 ): Promise<BankrResponse | null> {
   try {
-    const response = await fetch(
-      `https://api-staging.bankr.bot/public/wallet?username=${encodeURIComponent(username)}&platform=${platform}`
-    );
+    const response = await bankrLimit(() => withRateLimitRetry(async () => {
+      const res = await fetch(
+        `https://api-staging.bankr.bot/public/wallet?username=${encodeURIComponent(username)}&platform=${platform}`
+      );
+      if (res.status === 429) {
+        throw new Error(`HTTP 429: ${res.statusText}`);
+      }
+      return res;
+    }));
 
     if (!response.ok) {
       if (response.status === 404) {
@@ -33,4 +45,21 @@ export async function getBankrWalletData(
 
 export async function getBankrDataForFarcasterUser(username: string): Promise<BankrResponse | null> {
   return getBankrWalletData(username, 'farcaster');
-} 
\ No newline at end of file
+}
+
+/**
+ * Collect the EVM and Solana addresses of a user's Farcaster and X Bankr wallets
+ * @param username - Farcaster username
+ * @param xUsername - Connected X (Twitter) username, if any
+ * @returns Promise with every Bankr wallet address found
+ */
+export async function getBankrAddressesForUser(username: string, xUsername?: string): Promise<string[]> {
+  const [farcasterData, twitterData] = await Promise.all([
+    getBankrWalletData(username, 'farcaster'),
+    xUsername ? getBankrWalletData(xUsername, 'twitter') : Promise.resolve(null)
+  ]);
+
+  return [farcasterData, twitterData]
+    .flatMap(data => data ? [data.evmAddress, data.solanaAddress] : [])
+    .filter((address): address is string => !!address);
+}
@@ -0,0 +1,165 @@
+/**
+ * Client-safe chain registry
+ * Describes every chain we read balances from: RPC endpoints, explorer and native token
+ */
+import type { Chain } from 'viem';
+import { arbitrum, base, mainnet, optimism } from 'viem/chains';
+
+export type EvmChainKey = 'base' | 'ethereum' | 'optimism' | 'arbitrum';
+export type ChainKey = EvmChainKey | 'solana';
+
+export interface ChainInfo {
+  key: ChainKey;
+  name: string;
+  shortName: string;
+  // Set for EVM chains only
+  viemChain?: Chain;
+  rpcUrls: string[];
+  explorer: {
+    name: string;
+    addressUrl: (address: string) => string;
+    tokenUrl: (address: string) => string;
+  };
+  nativeToken: {
+    symbol: string;
+    name: string;
+    decimals: number;
+    logo_url: string;
+    // Wrapped version of the native token, used to price native balances
+    wrappedAddress: string;
+  };
+  // Chain id used by DexScreener and TrustWallet asset paths
+  dexScreenerId: string;
+}
+
+const ETH_NATIVE_TOKEN = {
+  symbol: 'ETH',
+  name: 'Ethereum',
+  decimals: 18,
+  logo_url: 'https://assets.coingecko.com/coins/images/279/small/ethereum.png',
+};
+
+// OP Stack chains predeploy WETH at the same address
+const OP_STACK_WETH = '0x4200000000000000000000000000000000000006';
+
+/**
+ * Read a comma-separated RPC URL override, falling back to public endpoints
+ */
+function rpcUrlsFromEnv(value: string | undefined, defaults: string[]): string[] {
+  if (!value) return defaults;
+  const urls = value.split(',').map(url => url.trim()).filter(url => url.length > 0);
+  return urls.length > 0 ? urls : defaults;
+}
+
+export const CHAINS: Record<ChainKey, ChainInfo> = {
+  base: {
+    key: 'base',
+    name: 'Base',
+    shortName: 'BASE',
+    viemChain: base,
+    rpcUrls: rpcUrlsFromEnv(process.env.BASE_RPC_URLS, [
+      'https://mainnet.base.org',
+      'https://base.llamarpc.com',
+      'https://base-mainnet.public.blastapi.io'
+    ]),
+    explorer: {
+      name: 'BaseScan',
+      addressUrl: address => `https://basescan.org/address/${address}`,
+      tokenUrl: address => `https://basescan.org/token/${address}`,
+    },
+    nativeToken: { ...ETH_NATIVE_TOKEN, wrappedAddress: OP_STACK_WETH },
+    dexScreenerId: 'base',
+  },
+  ethereum: {
+    key: 'ethereum',
+    name: 'Ethereum',
+    shortName: 'ETH',
+    viemChain: mainnet,
+    rpcUrls: rpcUrlsFromEnv(process.env.ETHEREUM_RPC_URLS, [
+      'https://eth.llamarpc.com',
+      'https://ethereum-rpc.publicnode.com',
+      'https://cloudflare-eth.com'
+    ]),
+    explorer: {
+      name: 'Etherscan',
+      addressUrl: address => `https://etherscan.io/address/${address}`,
+      tokenUrl: address => `https://etherscan.io/token/${address}`,
+    },
+    nativeToken: { ...ETH_NATIVE_TOKEN, wrappedAddress: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2' },
+    dexScreenerId: 'ethereum',
+  },
+  optimism: {
+    key: 'optimism',
+    name: 'Optimism',
+    shortName: 'OP',
+    viemChain: optimism,
+    rpcUrls: rpcUrlsFromEnv(process.env.OPTIMISM_RPC_URLS, [
+      'https://mainnet.optimism.io',
+      'https://optimism-rpc.publicnode.com'
+    ]),
+    explorer: {
+      name: 'Optimistic Etherscan',
+      addressUrl: address => `https://optimistic.etherscan.io/address/${address}`,
+      tokenUrl: address => `https://optimistic.etherscan.io/token/${address}`,
+    },
+    nativeToken: { ...ETH_NATIVE_TOKEN, wrappedAddress: OP_STACK_WETH },
+    dexScreenerId: 'optimism',
+  },
+  arbitrum: {
+    key: 'arbitrum',
+    name: 'Arbitrum',
+    shortName: 'ARB',
+    viemChain: arbitrum,
+    rpcUrls: rpcUrlsFromEnv(process.env.ARBITRUM_RPC_URLS, [
+      'https://arb1.arbitrum.io/rpc',
+      'https://arbitrum-one-rpc.publicnode.com'
+    ]),
+    explorer: {
+      name: 'Arbiscan',
+      addressUrl: address => `https://arbiscan.io/address/${address}`,
+      tokenUrl: address => `https://arbiscan.io/token/${address}`,
+    },
+    nativeToken: { ...ETH_NATIVE_TOKEN, wrappedAddress: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1' },
+    dexScreenerId: 'arbitrum',
+  },
+  solana: {
+    key: 'solana',
+    name: 'Solana',
+    shortName: 'SOL',
+    rpcUrls: rpcUrlsFromEnv(process.env.SOLANA_RPC_URL, ['https://api.mainnet-beta.solana.com']),
+    explorer: {
+      name: 'Solscan',
+      addressUrl: address => `https://solscan.io/account/${address}`,
+      tokenUrl: address => `https://solscan.io/token/${address}`,
+    },
+    nativeToken: {
+      symbol: 'SOL',
+      name: 'Solana',
+      decimals: 9,
+      logo_url: 'https://assets.coingecko.com/coins/images/4128/small/solana.png',
+      wrappedAddress: 'So11111111111111111111111111111111111111112',
+    },
+    dexScreenerId: 'solana',
+  },
+};
+
+// Alchemy network slugs for the EVM chains we support (NFT API and token balance discovery)
+export const ALCHEMY_NETWORKS: Record<EvmChainKey, string> = {
+  base: 'base-mainnet',
+  ethereum: 'eth-mainnet',
+  optimism: 'opt-mainnet',
+  arbitrum: 'arb-mainnet',
+};
+
+// EVM chains we fetch balances on, in display order
+export const EVM_CHAIN_KEYS: EvmChainKey[] = ['base', 'ethereum', 'optimism', 'arbitrum'];
+
+/**
+ * Map a Neynar network name onto our chain key
+ * @param network - Network name from Neynar (e.g. 'base', 'ethereum')
+ * @returns The matching EVM chain key, or null if unsupported
+ */
+export function chainKeyFromNetwork(network: string | undefined): EvmChainKey | null {
+  const key = (network || '').toLowerCase();
+  return (EVM_CHAIN_KEYS as string[]).includes(key) ? key as EvmChainKey : null;
+}
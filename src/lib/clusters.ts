@@ -0,0 +1,235 @@
+/**
+ * Cluster report for multi-input searches, used by airdrop reviewers to spot
+ * groups of accounts that are likely controlled by the same person
+ */
+import type { FarcasterUser } from './neynar';
+import { analyzeRelationships, groupLinkedFids } from './relationships';
+import { toCsv } from './csv';
+
+export type ClusterReason = 'shared_address' | 'similar_username' | 'fid_range';
+
+// FIDs are assigned sequentially, so accounts within this distance registered around the same time
+export const DEFAULT_FID_WINDOW = 100;
+export const MAX_FID_WINDOW = 10000;
+
+export interface ClusterMember {
+  fid: number;
+  username: string;
+  display_name: string;
+  score: number | null;
+}
+
+export interface UserCluster {
+  id: string;
+  reason: ClusterReason;
+  members: ClusterMember[];
+  // Human-readable proof for the grouping: shared addresses, username pairs or the FID span
+  evidence: string[];
+  // Aggregates of the members' Neynar user scores (null when no member has a score)
+  average_score: number | null;
+  min_score: number | null;
+  max_score: number | null;
+}
+
+export interface ClusterReport {
+  generated_at: string;
+  user_count: number;
+  fid_window: number;
+  clusters: UserCluster[];
+  // FIDs that did not fall into any cluster
+  unclustered_fids: number[];
+  notFoundInputs: string[];
+}
+
+export interface ClusterReportOptions {
+  fidWindow?: number;
+  notFoundInputs?: string[];
+}
+
+// Lowercase alphanumerics without a trailing .eth, e.g. "Alice_01.eth" -> "alice01"
+function normalizeUsername(username: string): string {
+  return username.toLowerCase().replace(/\.eth$/, '').replace(/[^a-z0-9]/g, '');
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Check whether two usernames are near-identical: the same apart from digits and
+ * separators (alice, alice_2, alice.eth), or a single edit apart (alice, alicee)
+ * @param a - First username
+ * @param b - Second username
+ * @returns True if the usernames look like variations of one another
+ */
+export function areUsernamesSimilar(a: string, b: string): boolean {
+  const normalizedA = normalizeUsername(a);
+  const normalizedB = normalizeUsername(b);
+  if (!normalizedA || !normalizedB) return false;
+  if (normalizedA === normalizedB) return true;
+
+  const stemA = normalizedA.replace(/\d+/g, '');
+  const stemB = normalizedB.replace(/\d+/g, '');
+  if (stemA.length >= 3 && stemA === stemB) return true;
+
+  // Short names are too likely to collide by chance
+  return Math.min(normalizedA.length, normalizedB.length) >= 5 && levenshtein(normalizedA, normalizedB) <= 1;
+}
+
+function toMember(user: FarcasterUser): ClusterMember {
+  return {
+    fid: user.fid,
+    username: user.username,
+    display_name: user.display_name,
+    score: typeof user.score === 'number' ? user.score : null
+  };
+}
+
+function buildCluster(
+  reason: ClusterReason,
+  index: number,
+  fids: number[],
+  usersByFid: Map<number, FarcasterUser>,
+  evidence: string[]
+): UserCluster {
+  const members = fids
+    .map(fid => usersByFid.get(fid))
+    .filter((user): user is FarcasterUser => !!user)
+    .map(toMember);
+  const scores = members
+    .map(member => member.score)
+    .filter((score): score is number => score !== null);
+
+  return {
+    id: `${reason}-${index + 1}`,
+    reason,
+    members,
+    evidence,
+    average_score: scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null,
+    min_score: scores.length > 0 ? Math.min(...scores) : null,
+    max_score: scores.length > 0 ? Math.max(...scores) : null
+  };
+}
+
+/**
+ * Group searched users that share addresses, have near-identical usernames, or
+ * were registered close together (by FID range)
+ * A user can appear in one cluster per reason
+ * @param users - Users returned by a search
+ * @param options - FID window and the search's not-found inputs to carry into the report
+ * @returns Cluster report, clusters ordered by reason then size
+ */
+export function buildClusterReport(users: FarcasterUser[], options: ClusterReportOptions = {}): ClusterReport {
+  const fidWindow = options.fidWindow ?? DEFAULT_FID_WINDOW;
+  const usersByFid = new Map(users.map(user => [user.fid, user]));
+  const clusters: UserCluster[] = [];
+
+  // Shared custody, verified or Bankr addresses
+  const relationships = analyzeRelationships(users);
+  relationships.clusters.forEach((fids, index) => {
+    const evidence = relationships.shared_addresses
+      .filter(shared => shared.owners.some(owner => fids.includes(owner.fid)))
+      .map(shared => shared.address);
+    clusters.push(buildCluster('shared_address', index, fids, usersByFid, evidence));
+  });
+
+  // Near-identical usernames
+  const usernamePairs: Array<[number, number]> = [];
+  for (let i = 0; i < users.length; i++) {
+    for (let j = i + 1; j < users.length; j++) {
+      if (users[i].username && users[j].username && areUsernamesSimilar(users[i].username, users[j].username)) {
+        usernamePairs.push([users[i].fid, users[j].fid]);
+      }
+    }
+  }
+  groupLinkedFids(usernamePairs).forEach((fids, index) => {
+    const evidence = usernamePairs
+      .filter(([a]) => fids.includes(a))
+      .map(([a, b]) => `@${usersByFid.get(a)?.username} ~ @${usersByFid.get(b)?.username}`);
+    clusters.push(buildCluster('similar_username', index, fids, usersByFid, evidence));
+  });
+
+  // Runs of FIDs where each is within the window of the previous one
+  const sortedFids = Array.from(usersByFid.keys()).sort((a, b) => a - b);
+  const fidRuns: number[][] = [];
+  let run: number[] = [];
+  for (const fid of sortedFids) {
+    if (run.length > 0 && fid - run[run.length - 1] > fidWindow) {
+      fidRuns.push(run);
+      run = [];
+    }
+    run.push(fid);
+  }
+  fidRuns.push(run);
+  fidRuns
+    .filter(fids => fids.length > 1)
+    .sort((a, b) => b.length - a.length)
+    .forEach((fids, index) => {
+      const evidence = [`FIDs ${fids[0]}-${fids[fids.length - 1]} (within ${fidWindow} of each other)`];
+      clusters.push(buildCluster('fid_range', index, fids, usersByFid, evidence));
+    });
+
+  const clusteredFids = new Set(clusters.flatMap(cluster => cluster.members.map(member => member.fid)));
+
+  console.log(`🕸️ Cluster report: ${clusters.length} clusters across ${users.length} users`);
+
+  return {
+    generated_at: new Date().toISOString(),
+    user_count: users.length,
+    fid_window: fidWindow,
+    clusters,
+    unclustered_fids: sortedFids.filter(fid => !clusteredFids.has(fid)),
+    notFoundInputs: options.notFoundInputs || []
+  };
+}
+
+/**
+ * Flatten a cluster report to CSV, one row per cluster member
+ * @param report - Report from buildClusterReport
+ * @returns CSV text
+ */
+export function clusterReportToCsv(report: ClusterReport): string {
+  const headers = [
+    'cluster_id',
+    'reason',
+    'cluster_size',
+    'average_score',
+    'min_score',
+    'max_score',
+    'fid',
+    'username',
+    'display_name',
+    'score',
+    'evidence'
+  ];
+
+  const rows = report.clusters.flatMap(cluster =>
+    cluster.members.map(member => [
+      cluster.id,
+      cluster.reason,
+      cluster.members.length,
+      cluster.average_score?.toFixed(4),
+      cluster.min_score?.toFixed(4),
+      cluster.max_score?.toFixed(4),
+      member.fid,
+      member.username,
+      member.display_name,
+      member.score?.toFixed(4),
+      cluster.evidence.join('; ')
+    ])
+  );
+
+  return toCsv(headers, rows);
+}
@@ -0,0 +1,80 @@
+/**
+ * Helpers for batching and rate limiting calls to upstream APIs
+ */
+
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Split a list into chunks of at most `size` items
+ * @param items - Items to split
+ * @param size - Maximum chunk size
+ * @returns Array of chunks, in order
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Create a limiter that runs at most `concurrency` tasks at a time
+ * Share one limiter per upstream so concurrent requests also respect the cap
+ * @param concurrency - Maximum number of tasks in flight
+ * @returns Function that queues a task and resolves with its result
+ */
+export function createLimiter(concurrency: number): Limiter {
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  const next = () => {
+    if (active >= concurrency || queue.length === 0) return;
+    active++;
+    queue.shift()!();
+  };
+
+  return <T>(task: () => Promise<T>) => new Promise<T>((resolve, reject) => {
+    queue.push(() => {
+      task()
+        .then(resolve, reject)
+        .finally(() => {
+          active--;
+          next();
+        });
+    });
+    next();
+  });
+}
+
+/**
+ * Check whether an error from fetch, axios or the Neynar SDK is an HTTP 429
+ * @param error - The caught error
+ * @returns True if the upstream rate limited the request
+ */
+export function isRateLimitError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+  const { status, response, message } = error as { status?: unknown; response?: { status?: unknown }; message?: unknown };
+  return status === 429 || response?.status === 429 || (typeof message === 'string' && message.includes('HTTP 429'));
+}
+
+/**
+ * Retry a task with exponential backoff while it is being rate limited
+ * @param task - The task to run
+ * @param retries - Maximum number of retries after the first attempt
+ * @param baseDelayMs - Delay before the first retry, doubled on each attempt
+ * @returns Promise with the task's result, or its last error
+ */
+export async function withRateLimitRetry<T>(task: () => Promise<T>, retries = 3, baseDelayMs = 500): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= retries || !isRateLimitError(error)) throw error;
+
+      const delay = baseDelayMs * 2 ** attempt;
+      console.log(`⏳ Rate limited, retrying in ${delay}ms (attempt ${attempt + 1}/${retries})`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { escapeCsvValue, parseCsvLine, toCsv } from './csv';
+
+describe('escapeCsvValue', () => {
+  it('quotes delimiters, quotes and newlines', () => {
+    expect(escapeCsvValue('a,b')).toBe('"a,b"');
+    expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvValue('line\nbreak')).toBe('"line\nbreak"');
+    expect(escapeCsvValue(null)).toBe('');
+  });
+
+  it('neutralises spreadsheet formulas', () => {
+    expect(escapeCsvValue('=HYPERLINK("http://evil.example","click")')).toBe(`"'=HYPERLINK(""http://evil.example"",""click"")"`);
+    expect(escapeCsvValue('+1+1')).toBe("'+1+1");
+    expect(escapeCsvValue('-2+3')).toBe("'-2+3");
+    expect(escapeCsvValue('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(escapeCsvValue('\t=1')).toBe("'\t=1");
+    expect(escapeCsvValue('\r=1')).toBe(`"'\r=1"`);
+  });
+
+  it('leaves numbers and safe strings alone', () => {
+    expect(escapeCsvValue(-0.5)).toBe('-0.5');
+    expect(escapeCsvValue('dwr.eth')).toBe('dwr.eth');
+  });
+});
+
+describe('toCsv', () => {
+  it('guards a malicious display name in a row', () => {
+    const csv = toCsv(['fid', 'display_name'], [[3, '=cmd|\' /C calc\'!A0']]);
+    expect(csv).toBe("fid,display_name\r\n3,'=cmd|' /C calc'!A0");
+  });
+});
+
+describe('parseCsvLine', () => {
+  it('splits and trims fields', () => {
+    expect(parseCsvLine('address, amount ,')).toEqual(['address', 'amount', '']);
+  });
+
+  it('keeps delimiters and escaped quotes inside quoted fields', () => {
+    expect(parseCsvLine('"dwr, the founder","say ""hi""",3')).toEqual(['dwr, the founder', 'say "hi"', '3']);
+  });
+});
@@ -0,0 +1,64 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Leading characters that make Excel / Sheets evaluate a cell as a formula
+const FORMULA_PREFIX_PATTERN = /^[=+\-@\t\r]/;
+
+/**
+ * Escape a single CSV field, quoting it when it contains a delimiter, quote or newline
+ * Strings that would be evaluated as a spreadsheet formula (user-chosen usernames and
+ * display names included) are prefixed with ' so they open as plain text
+ * @param value - The field value
+ * @returns The escaped field
+ */
+export function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' && FORMULA_PREFIX_PATTERN.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build an RFC 4180 CSV document
+ * @param headers - Column names
+ * @param rows - Rows of values, in header order
+ * @returns CSV text with CRLF line endings
+ */
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows]
+    .map(row => row.map(escapeCsvValue).join(','))
+    .join('\r\n');
+}
+
+/**
+ * Split one CSV line into trimmed fields, honouring quoted fields and "" escapes
+ * @param line - A single line of CSV text
+ * @returns The line's fields
+ */
+export function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field.trim());
+  return fields;
+}
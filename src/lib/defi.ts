@@ -0,0 +1,283 @@
+import { formatUnits, getAddress, parseAbi, parseUnits } from 'viem';
+import { getChainClient } from './rpc';
+import { resolveTokenMetadata } from './tokens';
+import { getTokenPrices } from './prices';
+import { CHAINS, EvmChainKey, EVM_CHAIN_KEYS } from './chains';
+import type { TokenBalance } from './neynar';
+
+export type PositionType = 'lending' | 'lp' | 'vault' | 'staked';
+
+export interface PositionUnderlying {
+  token_address: string;
+  token_symbol: string;
+  balance: string;
+  value_usd: number;
+}
+
+/**
+ * A token balance that represents a DeFi position rather than a plain holding
+ * value_usd is the value of the underlying assets when they could be resolved
+ */
+export interface DefiPosition extends TokenBalance {
+  position_type: PositionType;
+  // Protocol (or standard, e.g. 'ERC-4626') the position was recognised as
+  protocol: string;
+  underlying: PositionUnderlying[];
+}
+
+/**
+ * Liquid staking tokens, keyed by `${chain}:${lowercase address}`
+ * These are priced directly, so they need no on-chain probing
+ */
+const STAKED_ETH_TOKENS: { [key: string]: string } = {
+  'ethereum:0xae7ab96520de3a18e5e111b5eaab095312d7fe84': 'Lido', // stETH
+  'ethereum:0x7f39c581f595b53c5cb19bd0b3f8da6c935e2ca0': 'Lido', // wstETH
+  'ethereum:0xae78736cd615f374d3085123a210448e74fc6393': 'Rocket Pool', // rETH
+  'ethereum:0xbe9895146f7af43049ca1c1ae358b0541ea49704': 'Coinbase', // cbETH
+  'ethereum:0xcd5fe23c85820f7b72d0926fc9b05b43e359b7ee': 'ether.fi', // weETH
+  'base:0x2ae3f1ec7f1f5012cfeab0185bfc7aa3cf0dec22': 'Coinbase', // cbETH
+  'base:0xc1cba3fcea344f92d9239c08c0568f6f2f0ee452': 'Lido', // wstETH
+  'base:0x04c0599ae5a44757c0af6f9ec3b93da8976c150a': 'ether.fi', // weETH
+  'optimism:0x1f32b1c2345538c0c6f582fcb022739c4a194ebb': 'Lido', // wstETH
+  'optimism:0x9bcef72be871e61ed4fbbc7630889bee758eb81d': 'Rocket Pool', // rETH
+  'arbitrum:0x5979d7b546e38e414f7e9822514be443a4800529': 'Lido', // wstETH
+  'arbitrum:0xec70dcb4a1efa46b8f2d97c310c9c4790ba5ffa8': 'Rocket Pool', // rETH
+  'arbitrum:0x35751007a407ca6feffe80b3cb397736d2cf4dbe': 'ether.fi', // weETH
+};
+
+// Read-only functions that identify the common position token standards
+const POSITION_PROBE_ABI = parseAbi([
+  'function asset() view returns (address)',
+  'function convertToAssets(uint256 shares) view returns (uint256)',
+  'function underlying() view returns (address)',
+  'function exchangeRateStored() view returns (uint256)',
+  'function UNDERLYING_ASSET_ADDRESS() view returns (address)',
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+  'function totalSupply() view returns (uint256)',
+]);
+
+const PROBE_FUNCTIONS = [
+  'asset',
+  'underlying',
+  'exchangeRateStored',
+  'UNDERLYING_ASSET_ADDRESS',
+  'token0',
+  'token1',
+  'getReserves',
+  'totalSupply',
+] as const;
+
+const EXCHANGE_RATE_SCALE = BigInt(10) ** BigInt(18);
+
+interface DetectedPosition {
+  token: TokenBalance;
+  rawBalance: bigint;
+  position_type: PositionType;
+  protocol: string;
+  // Underlying token addresses with their raw amounts (vault amounts are filled in a second pass)
+  underlying: Array<{ address: string; rawAmount: bigint }>;
+}
+
+/**
+ * Convert a decimal balance string back into raw token units
+ * Aggregated balances can be in exponent notation, so go through toFixed first
+ */
+function toRawBalance(balance: string, decimals: number): bigint | null {
+  try {
+    const amount = Number(balance);
+    if (!isFinite(amount) || amount <= 0) return null;
+    return parseUnits(amount.toFixed(decimals), decimals);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Probe EVM tokens on one chain for vault, lending, LP and staking interfaces
+ * and resolve each detected position into its underlying assets
+ * @param chain - The EVM chain the tokens live on
+ * @param tokens - Aggregated token balances on that chain
+ * @returns Promise with the detected positions
+ */
+async function detectPositionsOnChain(chain: EvmChainKey, tokens: TokenBalance[]): Promise<DefiPosition[]> {
+  const detected: DetectedPosition[] = [];
+  const candidates: Array<{ token: TokenBalance; rawBalance: bigint }> = [];
+
+  const metadata = await resolveTokenMetadata(tokens.map(token => token.token_address), chain);
+
+  for (const token of tokens) {
+    const tokenMetadata = metadata.get(token.token_address.toLowerCase());
+    const rawBalance = tokenMetadata ? toRawBalance(token.balance, tokenMetadata.decimals) : null;
+    if (rawBalance === null) continue;
+
+    const stakingProtocol = STAKED_ETH_TOKENS[`${chain}:${token.token_address.toLowerCase()}`];
+    if (stakingProtocol) {
+      detected.push({ token, rawBalance, position_type: 'staked', protocol: stakingProtocol, underlying: [] });
+    } else {
+      candidates.push({ token, rawBalance });
+    }
+  }
+
+  if (candidates.length === 0 && detected.length === 0) {
+    return [];
+  }
+
+  const client = getChainClient(chain);
+  const probes = candidates.length > 0
+    ? await client.multicall({
+        contracts: candidates.flatMap(({ token }) => PROBE_FUNCTIONS.map(functionName => ({
+          address: getAddress(token.token_address),
+          abi: POSITION_PROBE_ABI,
+          functionName,
+        }))),
+        allowFailure: true,
+      })
+    : [];
+
+  const vaults: DetectedPosition[] = [];
+
+  candidates.forEach(({ token, rawBalance }, index) => {
+    const results = probes.slice(index * PROBE_FUNCTIONS.length, (index + 1) * PROBE_FUNCTIONS.length);
+    const read = (functionName: typeof PROBE_FUNCTIONS[number]) => {
+      const result = results[PROBE_FUNCTIONS.indexOf(functionName)];
+      return result?.status === 'success' ? result.result : undefined;
+    };
+
+    const asset = read('asset') as string | undefined;
+    const underlying = read('underlying') as string | undefined;
+    const exchangeRate = read('exchangeRateStored') as bigint | undefined;
+    const aaveUnderlying = read('UNDERLYING_ASSET_ADDRESS') as string | undefined;
+    const token0 = read('token0') as string | undefined;
+    const token1 = read('token1') as string | undefined;
+    const reserves = read('getReserves') as readonly [bigint, bigint, number] | undefined;
+    const totalSupply = read('totalSupply') as bigint | undefined;
+
+    if (asset) {
+      // ERC-4626 vault share (e.g. Moonwell Flagship / Morpho vaults); assets resolved below
+      const position: DetectedPosition = { token, rawBalance, position_type: 'vault', protocol: 'ERC-4626', underlying: [{ address: asset, rawAmount: BigInt(0) }] };
+      vaults.push(position);
+      detected.push(position);
+    } else if (underlying && exchangeRate !== undefined) {
+      // Compound-style market receipt (e.g. Moonwell mTokens)
+      detected.push({
+        token,
+        rawBalance,
+        position_type: 'lending',
+        protocol: 'Compound-style',
+        underlying: [{ address: underlying, rawAmount: rawBalance * exchangeRate / EXCHANGE_RATE_SCALE }]
+      });
+    } else if (aaveUnderlying) {
+      // Aave aTokens track the underlying 1:1
+      detected.push({ token, rawBalance, position_type: 'lending', protocol: 'Aave', underlying: [{ address: aaveUnderlying, rawAmount: rawBalance }] });
+    } else if (token0 && token1 && reserves && totalSupply) {
+      // Uniswap V2-style pool share: a pro-rata slice of both reserves
+      detected.push({
+        token,
+        rawBalance,
+        position_type: 'lp',
+        protocol: 'Uniswap V2-style',
+        underlying: [
+          { address: token0, rawAmount: reserves[0] * rawBalance / totalSupply },
+          { address: token1, rawAmount: reserves[1] * rawBalance / totalSupply },
+        ]
+      });
+    }
+  });
+
+  if (vaults.length > 0) {
+    const assets = await client.multicall({
+      contracts: vaults.map(position => ({
+        address: getAddress(position.token.token_address),
+        abi: POSITION_PROBE_ABI,
+        functionName: 'convertToAssets' as const,
+        args: [position.rawBalance],
+      })),
+      allowFailure: true,
+    });
+    vaults.forEach((position, index) => {
+      const result = assets[index];
+      if (result.status === 'success') {
+        position.underlying[0].rawAmount = result.result as bigint;
+      } else {
+        position.underlying = [];
+      }
+    });
+  }
+
+  // Resolve and price every underlying asset in one pass
+  const underlyingAddresses = Array.from(new Set(detected.flatMap(position => position.underlying.map(u => u.address.toLowerCase()))));
+  const [underlyingMetadata, underlyingPrices] = underlyingAddresses.length > 0
+    ? await Promise.all([
+        resolveTokenMetadata(underlyingAddresses, chain),
+        getTokenPrices(CHAINS[chain].dexScreenerId, underlyingAddresses),
+      ])
+    : [new Map(), new Map()];
+
+  return detected.map(position => {
+    const underlying: PositionUnderlying[] = [];
+    for (const { address, rawAmount } of position.underlying) {
+      const assetMetadata = underlyingMetadata.get(address.toLowerCase());
+      if (!assetMetadata) continue;
+
+      const balance = formatUnits(rawAmount, assetMetadata.decimals);
+      const price = underlyingPrices.get(address.toLowerCase())?.price_usd || 0;
+      underlying.push({
+        token_address: address,
+        token_symbol: assetMetadata.symbol,
+        balance,
+        value_usd: (parseFloat(balance) || 0) * price,
+      });
+    }
+
+    // Prefer the value of the underlying assets; fall back to the token's own market price
+    const underlyingValue = underlying.reduce((sum, u) => sum + u.value_usd, 0);
+    const value = underlyingValue > 0 ? underlyingValue : position.token.value_usd || 0;
+    const totalBalance = parseFloat(position.token.balance) || 0;
+
+    console.log(`🏦 ${position.token.token_symbol} on ${chain} is a ${position.position_type} position (${position.protocol}) worth $${value.toFixed(2)}`);
+
+    return {
+      ...position.token,
+      value_usd: value,
+      wallets: position.token.wallets.map(wallet => ({
+        ...wallet,
+        value_usd: totalBalance > 0 ? value * (parseFloat(wallet.balance) || 0) / totalBalance : 0
+      })),
+      position_type: position.position_type,
+      protocol: position.protocol,
+      underlying,
+    };
+  });
+}
+
+/**
+ * Split aggregated holdings into plain tokens and DeFi positions (lending receipts,
+ * LP tokens, vault shares and liquid staking tokens), resolving each position to its
+ * underlying assets where possible
+ * @param tokens - Aggregated, priced token balances
+ * @returns Promise with the remaining plain tokens and the detected positions
+ */
+export async function classifyDefiPositions(tokens: TokenBalance[]): Promise<{ tokens: TokenBalance[]; positions: DefiPosition[] }> {
+  const positions: DefiPosition[] = [];
+
+  await Promise.all(EVM_CHAIN_KEYS.map(async (chain) => {
+    const chainTokens = tokens.filter(token => token.chain === chain && token.token_address !== 'native');
+    if (chainTokens.length === 0) return;
+
+    try {
+      positions.push(...await detectPositionsOnChain(chain, chainTokens));
+    } catch (error) {
+      console.error(`❌ Failed to classify DeFi positions on ${chain}:`, error);
+    }
+  }));
+
+  const positionKeys = new Set(positions.map(position => `${position.chain}:${position.token_address.toLowerCase()}`));
+  console.log(`🏦 Found ${positions.length} DeFi positions across ${tokens.length} tokens`);
+
+  return {
+    tokens: tokens.filter(token => !positionKeys.has(`${token.chain}:${token.token_address.toLowerCase()}`)),
+    positions: positions.sort((a, b) => (b.value_usd || 0) - (a.value_usd || 0)),
+  };
+}
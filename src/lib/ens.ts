@@ -0,0 +1,139 @@
+import { getAddress, parseAbi } from 'viem';
+import { namehash, normalize } from 'viem/ens';
+import { getChainClient } from './rpc';
+import { isValidEthereumAddress } from './validation';
+import { createLimiter } from './concurrency';
+
+// Basenames L2 resolver on Base, which stores addr records for *.base.eth names
+export const BASENAME_L2_RESOLVER = '0xC6d566A56A1aFf6508b41f6c90ff131615583BCD';
+
+const l2ResolverAbi = parseAbi([
+  'function addr(bytes32 node) view returns (address)',
+  'function name(bytes32 node) view returns (string)'
+]);
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Base's ENSIP-11 coin type (0x80000000 | 8453) in hex, used to build Basename reverse nodes
+const BASE_REVERSE_NAMESPACE = '80002105.reverse';
+
+// Primary names rarely change, so reuse lookups for a while (names that weren't set included)
+const NAME_CACHE_TTL_MS = Number(process.env.NAME_CACHE_TTL_MS || String(60 * 60 * 1000));
+
+export interface AddressNames {
+  ens: string | null;
+  basename: string | null;
+}
+
+const nameCache = new Map<string, { names: AddressNames; expiresAt: number }>();
+
+// Lookups in flight at once; enough for the clients to batch them into multicalls
+// without flooding public RPCs on large searches
+const nameLookupLimit = createLimiter(50);
+
+/**
+ * Resolve an ENS name to its address on Ethereum mainnet (via ETHEREUM_RPC_URLS)
+ * @param name - ENS name, e.g. vitalik.eth
+ * @returns Promise with the resolved address, or null if unset or resolution failed
+ */
+export async function resolveEnsName(name: string): Promise<string | null> {
+  try {
+    const address = await getChainClient('ethereum').getEnsAddress({ name: normalize(name) });
+    console.log(`🔎 ENS ${name} -> ${address || 'unresolved'}`);
+    return address || null;
+  } catch (error) {
+    console.error(`❌ Error resolving ENS name ${name}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Resolve a Basename to its address through the Base L2 resolver (via BASE_RPC_URLS)
+ * @param name - Basename, e.g. jesse.base.eth
+ * @returns Promise with the resolved address, or null if unset or resolution failed
+ */
+export async function resolveBasename(name: string): Promise<string | null> {
+  try {
+    const address = await getChainClient('base').readContract({
+      address: BASENAME_L2_RESOLVER,
+      abi: l2ResolverAbi,
+      functionName: 'addr',
+      args: [namehash(normalize(name))]
+    });
+    const resolved = address && address !== ZERO_ADDRESS ? address : null;
+    console.log(`🔎 Basename ${name} -> ${resolved || 'unresolved'}`);
+    return resolved;
+  } catch (error) {
+    console.error(`❌ Error resolving Basename ${name}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Look up the primary ENS name of an address (forward-verified by the universal resolver)
+ * @param address - EVM address
+ * @returns Promise with the name, or null if unset
+ */
+async function lookupEnsName(address: string): Promise<string | null> {
+  return getChainClient('ethereum').getEnsName({ address: getAddress(address) });
+}
+
+/**
+ * Look up the primary Basename of an address through the Base L2 resolver's reverse record,
+ * checking that the name resolves back to the same address
+ * @param address - EVM address
+ * @returns Promise with the Basename, or null if unset or not verified
+ */
+async function lookupBasename(address: string): Promise<string | null> {
+  const reverseNode = namehash(`${address.toLowerCase().slice(2)}.${BASE_REVERSE_NAMESPACE}`);
+  const name = await getChainClient('base').readContract({
+    address: BASENAME_L2_RESOLVER,
+    abi: l2ResolverAbi,
+    functionName: 'name',
+    args: [reverseNode]
+  });
+  if (!name) return null;
+
+  const forward = await resolveBasename(name);
+  return forward?.toLowerCase() === address.toLowerCase() ? name : null;
+}
+
+/**
+ * Reverse-resolve primary ENS names and Basenames for a batch of EVM addresses
+ * Lookups run concurrently so the chain clients batch them into multicalls, and
+ * results are cached for NAME_CACHE_TTL_MS
+ * @param addresses - EVM addresses (non-EVM entries are ignored)
+ * @returns Promise with names keyed by lowercase address; addresses whose lookups failed are left out
+ */
+export async function reverseResolveAddresses(addresses: string[]): Promise<Record<string, AddressNames>> {
+  const now = Date.now();
+  const result: Record<string, AddressNames> = {};
+  const uncached: string[] = [];
+
+  for (const address of new Set(addresses.filter(isValidEthereumAddress).map(address => address.toLowerCase()))) {
+    const cached = nameCache.get(address);
+    if (cached && cached.expiresAt > now) {
+      result[address] = cached.names;
+    } else {
+      uncached.push(address);
+    }
+  }
+
+  if (uncached.length > 0) {
+    console.log(`🏷️ Reverse resolving names for ${uncached.length} addresses (${Object.keys(result).length} cached)`);
+
+    await Promise.all(uncached.map(async address => {
+      try {
+        const [ens, basename] = await nameLookupLimit(() => Promise.all([lookupEnsName(address), lookupBasename(address)]));
+        const names = { ens, basename };
+        nameCache.set(address, { names, expiresAt: now + NAME_CACHE_TTL_MS });
+        result[address] = names;
+      } catch (error) {
+        // Not cached, so the next search retries
+        console.error(`❌ Error reverse resolving ${address}:`, error);
+      }
+    }));
+  }
+
+  return result;
+}
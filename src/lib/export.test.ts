@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import type { FarcasterUser } from './neynar';
+import { searchResultToCsv } from './export';
+
+describe('searchResultToCsv', () => {
+  it('exports user-chosen names as plain text, not formulas', () => {
+    const user = {
+      fid: 3,
+      username: '@evil',
+      display_name: '=HYPERLINK("http://evil.example","Claim")',
+      custody_address: '0x0000000000000000000000000000000000000001',
+      verified_addresses: { eth_addresses: [], sol_addresses: [] }
+    } as unknown as FarcasterUser;
+
+    const csv = searchResultToCsv({
+      users: [user],
+      searchedInputs: ['3'],
+      notFoundInputs: ['-1+1']
+    });
+    const [, userRow, notFoundRow] = csv.split('\r\n');
+
+    expect(userRow.split(',').slice(0, 5)).toEqual(['found', '', '3', "'@evil", `"'=HYPERLINK(""http://evil.example""`]);
+    expect(notFoundRow).toBe("not_found,'-1+1");
+  });
+});
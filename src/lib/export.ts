@@ -0,0 +1,180 @@
+/**
+ * Client-safe export of search results for spreadsheets and allowlists
+ */
+import type { SearchMatch, SearchResult } from './neynar';
+import type { AddressNames } from './ens';
+import { toCsv } from './csv';
+
+export type ExportFormat = 'csv' | 'json';
+
+export interface ExportedAddress {
+  address: string;
+  primary: boolean;
+}
+
+export interface ExportedUser {
+  fid: number;
+  username: string;
+  display_name: string;
+  custody_address: string;
+  verified_eth_addresses: ExportedAddress[];
+  verified_sol_addresses: ExportedAddress[];
+  farcaster_bankr_evm: string | null;
+  farcaster_bankr_sol: string | null;
+  x_bankr_evm: string | null;
+  x_bankr_sol: string | null;
+  pro_status: string | null;
+  score: number | null;
+  // Search inputs that resolved to this user
+  matched_by: string[];
+}
+
+export interface SearchExport {
+  exported_at: string;
+  users: ExportedUser[];
+  searchedInputs: string[];
+  notFoundInputs: string[];
+  failedInputs: string[];
+  matches: SearchMatch[];
+  // Primary ENS names / Basenames keyed by lowercase address
+  names: Record<string, AddressNames>;
+}
+
+/**
+ * Flatten a search result into plain per-user records
+ * @param result - Search result from /api/search
+ * @returns Export document with one record per user and the not-found inputs
+ */
+export function buildSearchExport(result: SearchResult): SearchExport {
+  const matches = result.matches || [];
+  const users = result.users.map(user => {
+    const primaryEth = user.verified_addresses?.primary?.eth_address?.toLowerCase();
+    const primarySol = user.verified_addresses?.primary?.sol_address;
+
+    return {
+      fid: user.fid,
+      username: user.username,
+      display_name: user.display_name,
+      custody_address: user.custody_address,
+      verified_eth_addresses: (user.verified_addresses?.eth_addresses || []).map(address => ({
+        address,
+        primary: address.toLowerCase() === primaryEth
+      })),
+      verified_sol_addresses: (user.verified_addresses?.sol_addresses || []).map(address => ({
+        address,
+        primary: address === primarySol
+      })),
+      farcaster_bankr_evm: user.bankrData?.farcaster?.evmAddress || null,
+      farcaster_bankr_sol: user.bankrData?.farcaster?.solanaAddress || null,
+      x_bankr_evm: user.bankrData?.twitter?.evmAddress || null,
+      x_bankr_sol: user.bankrData?.twitter?.solanaAddress || null,
+      pro_status: user.pro?.status || null,
+      score: typeof user.score === 'number' ? user.score : null,
+      matched_by: matches.filter(match => match.fids.includes(user.fid)).map(match => match.input)
+    };
+  });
+
+  return {
+    exported_at: new Date().toISOString(),
+    users,
+    searchedInputs: result.searchedInputs,
+    notFoundInputs: result.notFoundInputs,
+    failedInputs: result.failedInputs || [],
+    matches,
+    names: result.names || {}
+  };
+}
+
+/**
+ * Serialize a search result as CSV, one row per user followed by one row per not-found
+ * or failed input
+ * Multiple verified addresses share a cell, separated by spaces
+ * @param result - Search result from /api/search
+ * @returns CSV text
+ */
+export function searchResultToCsv(result: SearchResult): string {
+  const { users, notFoundInputs, failedInputs } = buildSearchExport(result);
+  const joinAddresses = (addresses: ExportedAddress[]) => addresses.map(entry => entry.address).join(' ');
+  const primaryAddress = (addresses: ExportedAddress[]) => addresses.find(entry => entry.primary)?.address;
+
+  const headers = [
+    'status',
+    'input',
+    'fid',
+    'username',
+    'display_name',
+    'custody_address',
+    'verified_eth_addresses',
+    'primary_eth_address',
+    'verified_sol_addresses',
+    'primary_sol_address',
+    'farcaster_bankr_evm',
+    'farcaster_bankr_sol',
+    'x_bankr_evm',
+    'x_bankr_sol',
+    'pro_status',
+    'score',
+    'matched_by'
+  ];
+
+  const userRows = users.map(user => [
+    'found',
+    '',
+    user.fid,
+    user.username,
+    user.display_name,
+    user.custody_address,
+    joinAddresses(user.verified_eth_addresses),
+    primaryAddress(user.verified_eth_addresses),
+    joinAddresses(user.verified_sol_addresses),
+    primaryAddress(user.verified_sol_addresses),
+    user.farcaster_bankr_evm,
+    user.farcaster_bankr_sol,
+    user.x_bankr_evm,
+    user.x_bankr_sol,
+    user.pro_status,
+    user.score,
+    user.matched_by.join(' ')
+  ]);
+  const notFoundRows = notFoundInputs.map(input => ['not_found', input]);
+  const failedRows = failedInputs.map(input => ['failed', input]);
+
+  return toCsv(headers, [...userRows, ...notFoundRows, ...failedRows]);
+}
+
+/**
+ * Serialize a search result as pretty-printed JSON
+ * @param result - Search result from /api/search
+ * @returns JSON text
+ */
+export function searchResultToJson(result: SearchResult): string {
+  return JSON.stringify(buildSearchExport(result), null, 2);
+}
+
+/**
+ * Build a dated download filename, e.g. farcaster-search-2025-01-31.csv
+ * @param format - Export format
+ * @returns Filename
+ */
+export function getExportFilename(format: ExportFormat): string {
+  return `farcaster-search-${new Date().toISOString().slice(0, 10)}.${format}`;
+}
+
+/**
+ * Trigger a browser download of a search result
+ * @param result - Search result to export
+ * @param format - Export format
+ */
+export function downloadSearchResult(result: SearchResult, format: ExportFormat): void {
+  const content = format === 'csv' ? searchResultToCsv(result) : searchResultToJson(result);
+  const blob = new Blob([content], { type: format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getExportFilename(format);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import type { DefiPosition } from './defi';
+import { applyTokenFilters, filterHoldings } from './filters';
+
+const uniswapV2Position: DefiPosition = {
+  token_address: '0x88a43bbdf9d098eec7bceda4e2494615dfd9bb9c',
+  token_name: 'Uniswap V2',
+  token_symbol: 'UNI-V2',
+  balance: '0.5',
+  value_usd: 1200,
+  chain: 'base',
+  source: 'rpc',
+  wallets: [],
+  position_type: 'lp',
+  protocol: 'Uniswap V2',
+  underlying: []
+};
+
+describe('applyTokenFilters', () => {
+  it('hides plain tokens with a suspicious keyword in their name', () => {
+    const { kept, filtered } = applyTokenFilters([{ ...uniswapV2Position, token_name: 'Claim your airdrop' }]);
+
+    expect(kept).toEqual([]);
+    expect(filtered[0].filter_rule).toBe('suspicious-keyword');
+  });
+
+  it('reports the rules version', () => {
+    expect(applyTokenFilters([]).rules_version).toBe(2);
+  });
+});
+
+describe('filterHoldings', () => {
+  it('keeps a Uniswap V2 LP position in positions', () => {
+    const { positions, hidden } = filterHoldings([], [uniswapV2Position]);
+
+    expect(positions).toEqual([uniswapV2Position]);
+    expect(hidden).toEqual([]);
+  });
+
+  it('keeps a SushiSwap LP position in positions', () => {
+    const sushiPosition = { ...uniswapV2Position, token_name: 'SushiSwap LP Token', token_symbol: 'SLP', protocol: 'SushiSwap' };
+
+    expect(filterHoldings([], [sushiPosition]).positions).toEqual([sushiPosition]);
+  });
+
+  it('still applies the value rules to positions', () => {
+    const { positions, hidden } = filterHoldings([], [{ ...uniswapV2Position, value_usd: 20000000 }]);
+
+    expect(positions).toEqual([]);
+    expect(hidden[0].filter_rule).toBe('impossible-value');
+  });
+});
@@ -0,0 +1,214 @@
+import type { TokenBalance } from './neynar';
+import type { ChainKey } from './chains';
+import rulesFile from './token-filter-rules.json';
+
+// Rules files with a newer version than this are ignored rather than half-applied
+const SUPPORTED_RULES_VERSION = 2;
+
+interface ContractRule {
+  address: string;
+  // Omit to match the contract on every chain
+  chain?: ChainKey;
+  note?: string;
+  reason?: string;
+}
+
+interface ExactMatchRule {
+  value: string;
+  reason: string;
+}
+
+interface KeywordRule {
+  id: string;
+  pattern: string;
+  flags?: string;
+  fields: Array<'name' | 'symbol'>;
+  reason: string;
+}
+
+/**
+ * Heuristic on a token's USD value; every condition that is set must hold for the rule to match
+ */
+interface ValueRule {
+  id: string;
+  valueAboveUsd?: number;
+  balanceBelow?: number;
+  priceAboveUsd?: number;
+  reason: string;
+}
+
+export interface TokenFilterRules {
+  version: number;
+  allow: {
+    contracts: ContractRule[];
+  };
+  deny: {
+    contracts: ContractRule[];
+    names: ExactMatchRule[];
+    symbols: ExactMatchRule[];
+  };
+  keywords: KeywordRule[];
+  value: ValueRule[];
+}
+
+export interface FilterDecision {
+  // Id of the rule that matched, e.g. 'deny-contract' or a keyword/value rule id
+  rule: string;
+  reason: string;
+}
+
+export type FilteredTokenBalance<T extends TokenBalance = TokenBalance> = T & {
+  filter_rule: string;
+  filter_reason: string;
+};
+
+export interface TokenFilterOptions {
+  // Skip the name/symbol keyword patterns, e.g. for DeFi positions whose protocol names ("Uniswap V2") trip them
+  skipKeywordRules?: boolean;
+}
+
+export interface TokenFilterResult<T extends TokenBalance = TokenBalance> {
+  kept: T[];
+  filtered: FilteredTokenBalance<T>[];
+  rules_version: number;
+}
+
+interface CompiledKeywordRule extends KeywordRule {
+  regex: RegExp;
+}
+
+/**
+ * Validate the rules file and compile its keyword patterns once at load time
+ * @param rules - Parsed rules file
+ * @returns The rules with compiled regexes, or empty rules if the file can't be used
+ */
+function compileRules(rules: TokenFilterRules): { rules: TokenFilterRules; keywords: CompiledKeywordRule[] } {
+  if (rules.version > SUPPORTED_RULES_VERSION) {
+    console.error(`❌ Token filter rules version ${rules.version} is newer than supported version ${SUPPORTED_RULES_VERSION}, filtering disabled`);
+    return {
+      rules: { version: rules.version, allow: { contracts: [] }, deny: { contracts: [], names: [], symbols: [] }, keywords: [], value: [] },
+      keywords: []
+    };
+  }
+
+  const keywords: CompiledKeywordRule[] = [];
+  for (const rule of rules.keywords) {
+    try {
+      keywords.push({ ...rule, regex: new RegExp(rule.pattern, rule.flags) });
+    } catch (error) {
+      console.error(`❌ Invalid pattern in token filter rule ${rule.id}, skipping:`, error);
+    }
+  }
+
+  return { rules, keywords };
+}
+
+const { rules: filterRules, keywords: keywordRules } = compileRules(rulesFile as TokenFilterRules);
+
+function matchesContract(rule: ContractRule, token: TokenBalance): boolean {
+  return rule.address.toLowerCase() === token.token_address.toLowerCase() &&
+    (!rule.chain || rule.chain === token.chain);
+}
+
+/**
+ * Decide whether a token should be hidden from holdings
+ * Allow-listed contracts are always kept; otherwise deny-lists, keyword patterns
+ * and value heuristics are checked in that order and the first match wins
+ * @param token - The aggregated token balance to check
+ * @param options - Which rule groups to skip
+ * @returns The matching rule and reason, or null if the token is kept
+ */
+export function evaluateTokenFilters(token: TokenBalance, options: TokenFilterOptions = {}): FilterDecision | null {
+  if (filterRules.allow.contracts.some(rule => matchesContract(rule, token))) {
+    return null;
+  }
+
+  const deniedContract = filterRules.deny.contracts.find(rule => matchesContract(rule, token));
+  if (deniedContract) {
+    return { rule: 'deny-contract', reason: deniedContract.reason || `Denied contract${deniedContract.note ? ` (${deniedContract.note})` : ''}` };
+  }
+
+  const name = (token.token_name || '').toLowerCase();
+  const symbol = (token.token_symbol || '').toLowerCase();
+
+  const deniedName = filterRules.deny.names.find(rule => rule.value.toLowerCase() === name);
+  if (deniedName) {
+    return { rule: 'deny-name', reason: deniedName.reason };
+  }
+
+  const deniedSymbol = filterRules.deny.symbols.find(rule => rule.value.toLowerCase() === symbol);
+  if (deniedSymbol) {
+    return { rule: 'deny-symbol', reason: deniedSymbol.reason };
+  }
+
+  for (const rule of options.skipKeywordRules ? [] : keywordRules) {
+    const fields = rule.fields.map(field => field === 'name' ? token.token_name || '' : token.token_symbol || '');
+    if (fields.some(field => rule.regex.test(field))) {
+      return { rule: rule.id, reason: rule.reason };
+    }
+  }
+
+  const value = token.value_usd || 0;
+  const balance = parseFloat(token.balance) || 0;
+  const pricePerToken = balance > 0 ? value / balance : 0;
+
+  for (const rule of filterRules.value) {
+    const matches =
+      (rule.valueAboveUsd === undefined || value > rule.valueAboveUsd) &&
+      (rule.balanceBelow === undefined || balance < rule.balanceBelow) &&
+      (rule.priceAboveUsd === undefined || pricePerToken > rule.priceAboveUsd);
+    if (matches) {
+      return { rule: rule.id, reason: rule.reason };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Split tokens into the ones we show and the ones the filter rules hide
+ * @param tokens - Aggregated token balances
+ * @param options - Which rule groups to skip
+ * @returns Kept tokens, filtered tokens with their rule and reason, and the rules version used
+ */
+export function applyTokenFilters<T extends TokenBalance>(tokens: T[], options: TokenFilterOptions = {}): TokenFilterResult<T> {
+  const kept: T[] = [];
+  const filtered: FilteredTokenBalance<T>[] = [];
+
+  for (const token of tokens) {
+    const decision = evaluateTokenFilters(token, options);
+    if (decision) {
+      console.log(`🚫 Filtering ${token.token_name} (${token.token_symbol}) on ${token.chain} - ${decision.rule}: ${decision.reason}`);
+      filtered.push({ ...token, filter_rule: decision.rule, filter_reason: decision.reason });
+    } else {
+      kept.push(token);
+    }
+  }
+
+  return { kept, filtered, rules_version: filterRules.version };
+}
+
+/**
+ * Filter a user's plain tokens and DeFi positions
+ * Positions keep their protocol's token name (e.g. "Uniswap V2"), so only the deny-lists
+ * and value rules apply to them, not the keyword patterns
+ * @param tokens - Plain token balances
+ * @param positions - Classified DeFi positions
+ * @returns Kept tokens and positions, everything hidden, and the rules version used
+ */
+export function filterHoldings<T extends TokenBalance, P extends TokenBalance>(tokens: T[], positions: P[]): {
+  tokens: T[];
+  positions: P[];
+  hidden: FilteredTokenBalance<T | P>[];
+  rules_version: number;
+} {
+  const { kept: keptTokens, filtered: hiddenTokens } = applyTokenFilters(tokens);
+  const { kept: keptPositions, filtered: hiddenPositions } = applyTokenFilters(positions, { skipKeywordRules: true });
+
+  return {
+    tokens: keptTokens,
+    positions: keptPositions,
+    hidden: [...hiddenTokens, ...hiddenPositions],
+    rules_version: filterRules.version
+  };
+}
@@ -0,0 +1,86 @@
+import { fetchUserTokenBalances, FarcasterUser, TokenBalance, TokenWalletBalance } from './neynar';
+import { getBankrAddressesForUser } from './bankr';
+import { resolveTokenMetadata, TokenMetadata } from './tokens';
+import { createLimiter } from './concurrency';
+
+export interface TokenHolder {
+  fid: number;
+  username: string;
+  display_name: string;
+  pfp_url: string;
+  balance: string;
+  value_usd: number;
+  // Which of the user's wallets hold the token
+  wallets: TokenWalletBalance[];
+}
+
+export interface TokenHoldersResult {
+  token: TokenMetadata | null;
+  holders: TokenHolder[];
+  // FIDs whose holdings were checked
+  checked_fids: number[];
+}
+
+// Users whose holdings are aggregated at once (each one fans out to several RPC and API calls)
+const holderLookupLimit = createLimiter(5);
+
+/**
+ * Find which of the given Farcaster users hold a Base token, ranked by balance
+ * Each user's holdings are read through fetchUserTokenBalances, so verified, custody
+ * and Bankr wallets are all included and merged the same way as in the balance view.
+ * The token was asked for explicitly, so it counts even if the filter rules would hide it
+ * @param tokenAddress - The Base token contract to look for
+ * @param users - Farcaster users to check
+ * @returns Promise with the holders, largest balance first
+ */
+export async function findTokenHolders(tokenAddress: string, users: FarcasterUser[]): Promise<TokenHoldersResult> {
+  const metadata = await resolveTokenMetadata([tokenAddress], 'base');
+  const token = metadata.get(tokenAddress.toLowerCase()) || null;
+
+  console.log(`🔍 Checking ${users.length} users for holdings of ${token?.symbol || tokenAddress}`);
+
+  const isRequestedToken = (holding: TokenBalance) =>
+    holding.chain === 'base' && holding.token_address.toLowerCase() === tokenAddress.toLowerCase();
+
+  const results = await Promise.all(users.map(user => holderLookupLimit(async (): Promise<TokenHolder | null> => {
+    try {
+      const twitterAccount = user.verified_accounts?.find(account =>
+        account.platform === 'twitter' || account.platform === 'x'
+      );
+      const bankrAddresses = user.username
+        ? await getBankrAddressesForUser(user.username, twitterAccount?.username)
+        : [];
+
+      const balances = await fetchUserTokenBalances(user.fid, bankrAddresses, { tokenAddress, limit: 1, includeFiltered: true });
+      const holding = balances.tokens[0] ||
+        balances.positions.find(isRequestedToken) ||
+        balances.filtered_tokens?.find(isRequestedToken);
+
+      if (!holding || !(parseFloat(holding.balance) > 0)) {
+        return null;
+      }
+
+      console.log(`✅ @${user.username} holds ${holding.balance} ${holding.token_symbol}`);
+      return {
+        fid: user.fid,
+        username: user.username,
+        display_name: user.display_name,
+        pfp_url: user.pfp_url,
+        balance: holding.balance,
+        value_usd: holding.value_usd || 0,
+        wallets: holding.wallets
+      };
+    } catch (error) {
+      console.error(`❌ Error checking holdings for FID ${user.fid}:`, error);
+      return null;
+    }
+  })));
+
+  const holders = results.filter((holder): holder is TokenHolder => holder !== null);
+
+  return {
+    token,
+    holders: holders.sort((a, b) => (parseFloat(b.balance) || 0) - (parseFloat(a.balance) || 0)),
+    checked_fids: users.map(user => user.fid)
+  };
+}
@@ -1,4 +1,13 @@
 import { NeynarAPIClient } from '@neynar/nodejs-sdk';
+import { fetchErc20Balances, fetchNativeBalance, hasIndexedTokenDiscovery } from './tokens';
+import { applyTokenPrices } from './prices';
+import { filterHoldings, FilteredTokenBalance } from './filters';
+import { classifyDefiPositions, DefiPosition } from './defi';
+import { fetchSolanaBalances } from './solana';
+import { isValidSolanaAddress, SearchInputType } from './validation';
+import { chunk, createLimiter, withRateLimitRetry } from './concurrency';
+import type { AddressNames } from './ens';
+import { CHAINS, ChainKey, EVM_CHAIN_KEYS, chainKeyFromNetwork } from './chains';
 
 // Initialize the Neynar client
 const client = new NeynarAPIClient({ apiKey: process.env.NEYNAR_API_KEY! });
@@ -55,339 +64,400 @@ export interface SearchResult {
   users: FarcasterUser[];
   searchedInputs: string[];
   notFoundInputs: string[];
+  // Inputs whose lookup failed (e.g. upstream errors), as opposed to inputs with no profile
+  failedInputs?: string[];
+  // How each input was resolved, and to which users
+  matches?: SearchMatch[];
+  // Primary ENS names and Basenames of the users' EVM addresses, keyed by lowercase address
+  names?: Record<string, AddressNames>;
+}
+
+// How an input led to a user
+export type ResolutionPath =
+  | 'custody_address'
+  | 'verified_address'
+  | 'farcaster_username'
+  | 'x_username'
+  | 'fid'
+  | 'ens'
+  | 'basename'
+  | 'not_found'
+  | 'failed';
+
+export interface SearchMatch {
+  input: string;
+  type: SearchInputType;
+  path: ResolutionPath;
+  fids: number[];
+  // Address an ENS name or Basename resolved to
+  resolved_address?: string;
 }
 
 export interface UsernameSearchResult {
   users: FarcasterUser[];
   searchedUsernames: string[];
   notFoundUsernames: string[];
+  failedUsernames: string[];
 }
 
 export interface FIDSearchResult {
   users: FarcasterUser[];
   searchedFIDs: string[];
   notFoundFIDs: string[];
+  failedFIDs: string[];
 }
 
 export interface XUsernameSearchResult {
   users: FarcasterUser[];
   searchedXUsernames: string[];
   notFoundXUsernames: string[];
+  failedXUsernames: string[];
+}
+
+// Neynar bulk endpoint limits and our own cap on requests in flight
+const NEYNAR_ADDRESS_BATCH_SIZE = 350;
+const NEYNAR_FID_BATCH_SIZE = 100;
+const NEYNAR_CONCURRENCY = 5;
+
+// Shared by every search so concurrent requests don't multiply the load on Neynar
+const neynarLimit = createLimiter(NEYNAR_CONCURRENCY);
+
+/**
+ * Run a Neynar call through the shared limiter, retrying when rate limited
+ * @param task - The Neynar call
+ * @returns Promise with the call's result
+ */
+function runNeynarTask<T>(task: () => Promise<T>): Promise<T> {
+  return neynarLimit(() => withRateLimitRetry(task));
+}
+
+/**
+ * Extract users from a bulk-by-address response - API returns { "address": [users] } format
+ * @param addresses - Addresses that were searched
+ * @param data - The bulk-by-address response
+ * @returns Search results for the batch
+ */
+function parseBulkAddressResponse(addresses: string[], data: Record<string, unknown>): SearchResult {
+  const allUsers: FarcasterUser[] = [];
+  const foundAddresses: string[] = [];
+
+  for (const [address, users] of Object.entries(data)) {
+    if (Array.isArray(users) && users.length > 0) {
+      allUsers.push(...(users as FarcasterUser[]));
+      foundAddresses.push(address);
+    }
+  }
+
+  // Find addresses that didn't return any users
+  const notFoundAddresses = addresses.filter(addr =>
+    !foundAddresses.some(foundAddr =>
+      foundAddr.toLowerCase() === addr.toLowerCase()
+    )
+  );
+
+  return {
+    users: allUsers,
+    searchedInputs: addresses,
+    notFoundInputs: notFoundAddresses
+  };
+}
+
+/**
+ * Look up one batch of addresses, within Neynar's bulk-by-address limit
+ * @param addresses - At most NEYNAR_ADDRESS_BATCH_SIZE addresses
+ * @returns Promise with search results for the batch
+ */
+async function searchAddressBatch(addresses: string[]): Promise<SearchResult> {
+  // Try SDK first, fallback to direct API if it fails
+  try {
+    const response = await client.fetchBulkUsersByEthOrSolAddress({
+      addresses: addresses
+    });
+
+    console.log(`SDK API Response: ${Object.keys(response).length} of ${addresses.length} addresses matched`);
+    return parseBulkAddressResponse(addresses, response);
+  } catch (sdkError) {
+    console.log('SDK failed, falling back to direct API call:', sdkError);
+
+    // Fallback to direct REST API call
+    const addressesParam = addresses.join(',');
+    const url = `https://api.neynar.com/v2/farcaster/user/bulk-by-address?addresses=${encodeURIComponent(addressesParam)}`;
+
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'accept': 'application/json',
+        'api_key': process.env.NEYNAR_API_KEY!
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    console.log(`Direct API Response: ${Object.keys(data).length} of ${addresses.length} addresses matched`);
+    return parseBulkAddressResponse(addresses, data);
+  }
 }
 
 /**
  * Search for Farcaster users by wallet addresses (Ethereum or Solana)
+ * Addresses are looked up in batches; a batch that fails is reported in failedInputs
+ * instead of failing the whole search
  * @param addresses - Array of wallet addresses to search for
  * @returns Promise with search results
  */
 export async function searchUsersByAddresses(addresses: string[]): Promise<SearchResult> {
-  try {
-    console.log('Searching for users with addresses:', addresses);
-    
-    // Try SDK first, fallback to direct API if it fails
-    try {
-      const response = await client.fetchBulkUsersByEthOrSolAddress({
-        addresses: addresses
-      });
+  const batches = chunk(addresses, NEYNAR_ADDRESS_BATCH_SIZE);
+  console.log(`Searching for users with ${addresses.length} addresses in ${batches.length} batch(es)`);
 
-      console.log('SDK API Response:', response);
+  const results = await Promise.all(batches.map(batch =>
+    runNeynarTask(() => searchAddressBatch(batch)).catch((error): SearchResult => {
+      console.error(`Error searching batch of ${batch.length} addresses:`, error);
+      return { users: [], searchedInputs: batch, notFoundInputs: [], failedInputs: batch };
+    })
+  ));
 
-      // Extract users from the response - API returns { "address": [users] } format
-      const allUsers: FarcasterUser[] = [];
-      const foundAddresses: string[] = [];
-      
-      for (const [address, users] of Object.entries(response)) {
-        if (Array.isArray(users) && users.length > 0) {
-          allUsers.push(...(users as FarcasterUser[]));
-          foundAddresses.push(address);
-        }
-      }
-      
-      // Find addresses that didn't return any users
-      const notFoundAddresses = addresses.filter(addr => 
-        !foundAddresses.some(foundAddr => 
-          foundAddr.toLowerCase() === addr.toLowerCase()
-        )
-      );
-
-      return {
-        users: allUsers,
-        searchedInputs: addresses,
-        notFoundInputs: notFoundAddresses
-      };
-    } catch (sdkError) {
-      console.log('SDK failed, falling back to direct API call:', sdkError);
-      
-      // Fallback to direct REST API call
-      const addressesParam = addresses.join(',');
-      const url = `https://api.neynar.com/v2/farcaster/user/bulk-by-address?addresses=${encodeURIComponent(addressesParam)}`;
-      
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'accept': 'application/json',
-          'api_key': process.env.NEYNAR_API_KEY!
-        }
-      });
+  return {
+    users: results.flatMap(result => result.users),
+    searchedInputs: addresses,
+    notFoundInputs: results.flatMap(result => result.notFoundInputs),
+    failedInputs: results.flatMap(result => result.failedInputs || [])
+  };
+}
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
+/**
+ * Look up one batch of FIDs, within Neynar's bulk user limit
+ * @param fids - At most NEYNAR_FID_BATCH_SIZE FIDs
+ * @returns Promise with the users found
+ */
+async function fetchFIDBatch(fids: string[]): Promise<FarcasterUser[]> {
+  // Try SDK first, fallback to direct API if it fails
+  try {
+    const response = await client.fetchBulkUsers({
+      fids: fids.map(fid => parseInt(fid))
+    });
 
-      const data = await response.json();
-      console.log('Direct API Response:', data);
+    console.log(`SDK API Response for FIDs: ${response.users?.length || 0} of ${fids.length} found`);
+    return (response.users || []) as FarcasterUser[];
+  } catch (sdkError) {
+    console.log('SDK failed for FIDs, falling back to direct API call:', sdkError);
 
-      // Extract users from the response - API returns { "address": [users] } format
-      const allUsers: FarcasterUser[] = [];
-      const foundAddresses: string[] = [];
-      
-      for (const [address, users] of Object.entries(data)) {
-        if (Array.isArray(users) && users.length > 0) {
-          allUsers.push(...(users as FarcasterUser[]));
-          foundAddresses.push(address);
-        }
+    // Fallback to direct REST API call
+    const fidsParam = fids.join(',');
+    const url = `https://api.neynar.com/v2/farcaster/user/bulk?fids=${encodeURIComponent(fidsParam)}`;
+
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'accept': 'application/json',
+        'api_key': process.env.NEYNAR_API_KEY!
       }
-      
-      // Find addresses that didn't return any users
-      const notFoundAddresses = addresses.filter(addr => 
-        !foundAddresses.some(foundAddr => 
-          foundAddr.toLowerCase() === addr.toLowerCase()
-        )
-      );
-
-      return {
-        users: allUsers,
-        searchedInputs: addresses,
-        notFoundInputs: notFoundAddresses
-      };
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
-  } catch (error) {
-    console.error('Error searching for users by addresses:', error);
-    throw new Error(
-      error instanceof Error 
-        ? `Failed to search users: ${error.message}`
-        : 'Failed to search users'
-    );
+
+    const data = await response.json();
+    console.log(`Direct API Response for FIDs: ${data.users?.length || 0} of ${fids.length} found`);
+    return data.users || [];
   }
 }
 
 /**
  * Search for Farcaster users by FIDs (Farcaster IDs)
+ * FIDs are looked up in batches; a batch that fails is reported in failedFIDs
  * @param fids - Array of FIDs to search for
  * @returns Promise with search results
  */
 export async function searchUsersByFIDs(fids: string[]): Promise<FIDSearchResult> {
-  try {
-    console.log('Searching for users with FIDs:', fids);
-    
-    // Try SDK first, fallback to direct API if it fails
+  const batches = chunk(fids, NEYNAR_FID_BATCH_SIZE);
+  console.log(`Searching for users with ${fids.length} FIDs in ${batches.length} batch(es)`);
+
+  const allUsers: FarcasterUser[] = [];
+  const failedFIDs: string[] = [];
+
+  await Promise.all(batches.map(async batch => {
     try {
-      const response = await client.fetchBulkUsers({
-        fids: fids.map(fid => parseInt(fid))
-      });
+      allUsers.push(...await runNeynarTask(() => fetchFIDBatch(batch)));
+    } catch (error) {
+      console.error(`Error searching batch of ${batch.length} FIDs:`, error);
+      failedFIDs.push(...batch);
+    }
+  }));
 
-      console.log('SDK API Response for FIDs:', response);
+  // Find FIDs that didn't return any users
+  const foundFIDs = new Set(allUsers.map(user => user.fid.toString()));
+  const notFoundFIDs = fids.filter(fid =>
+    !foundFIDs.has(fid) && !failedFIDs.includes(fid)
+  );
 
-      const allUsers: FarcasterUser[] = (response.users || []) as FarcasterUser[];
-      const foundFIDs: string[] = allUsers.map(user => user.fid.toString());
-      
-      // Find FIDs that didn't return any users
-      const notFoundFIDs = fids.filter(fid => 
-        !foundFIDs.includes(fid)
-      );
-
-      return {
-        users: allUsers,
-        searchedFIDs: fids,
-        notFoundFIDs
-      };
-    } catch (sdkError) {
-      console.log('SDK failed for FIDs, falling back to direct API call:', sdkError);
-      
-      // Fallback to direct REST API call
-      const fidsParam = fids.join(',');
-      const url = `https://api.neynar.com/v2/farcaster/user/bulk?fids=${encodeURIComponent(fidsParam)}`;
-      
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'accept': 'application/json',
-          'api_key': process.env.NEYNAR_API_KEY!
-        }
-      });
+  return {
+    users: allUsers,
+    searchedFIDs: fids,
+    notFoundFIDs,
+    failedFIDs
+  };
+}
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
+/**
+ * Look up the Farcaster users who verified an X username
+ * @param xUsername - X username to look up
+ * @returns Promise with the matching users (empty when not found)
+ */
+async function lookupXUsername(xUsername: string): Promise<FarcasterUser[]> {
+  console.log(`Searching for X username: ${xUsername}`);
 
-      const data = await response.json();
-      console.log('Direct API Response for FIDs:', data);
+  // Direct API call - no SDK method available for this endpoint
+  const url = `https://api.neynar.com/v2/farcaster/user/by_x_username/?x_username=${encodeURIComponent(xUsername)}`;
 
-      const allUsers: FarcasterUser[] = data.users || [];
-      const foundFIDs: string[] = allUsers.map(user => user.fid.toString());
-      
-      // Find FIDs that didn't return any users
-      const notFoundFIDs = fids.filter(fid => 
-        !foundFIDs.includes(fid)
-      );
-
-      return {
-        users: allUsers,
-        searchedFIDs: fids,
-        notFoundFIDs
-      };
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: {
+      'accept': 'application/json',
+      'x-api-key': process.env.NEYNAR_API_KEY!
     }
-  } catch (error) {
-    console.error('Error searching for users by FIDs:', error);
-    throw new Error(
-      error instanceof Error 
-        ? `Failed to search users: ${error.message}`
-        : 'Failed to search users'
-    );
+  });
+
+  if (response.status === 404) {
+    // User not found
+    console.log(`X username ${xUsername} not found`);
+    return [];
+  }
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
   }
+
+  const data = await response.json();
+
+  // API returns an object with users array: {"users": [...]}
+  return data && Array.isArray(data.users) ? data.users : [];
 }
 
 /**
  * Search for Farcaster users by X (Twitter) usernames
+ * Lookups run concurrently through the shared Neynar limiter; lookups that fail
+ * (other than not found) are reported in failedXUsernames
  * @param xUsernames - Array of X usernames to search for
  * @returns Promise with search results
  */
 export async function searchUsersByXUsernames(xUsernames: string[]): Promise<XUsernameSearchResult> {
-  try {
-    console.log('Searching for users with X usernames:', xUsernames);
-    
-    const allUsers: FarcasterUser[] = [];
-    const foundXUsernames: string[] = [];
-    const notFoundXUsernames: string[] = [];
+  console.log(`Searching for users with ${xUsernames.length} X usernames`);
 
-    // Search for each X username individually
-    for (const xUsername of xUsernames) {
-      try {
-        console.log(`Searching for X username: ${xUsername}`);
-        
-        // Direct API call - no SDK method available for this endpoint
-        const url = `https://api.neynar.com/v2/farcaster/user/by_x_username/?x_username=${encodeURIComponent(xUsername)}`;
-        
-        const response = await fetch(url, {
-          method: 'GET',
-          headers: {
-            'accept': 'application/json',
-            'x-api-key': process.env.NEYNAR_API_KEY!
-          }
-        });
-
-        if (response.ok) {
-          const data = await response.json();
-          console.log(`X username search response for ${xUsername}:`, data);
-
-          // API returns an object with users array: {"users": [...]}
-          if (data && data.users && Array.isArray(data.users) && data.users.length > 0) {
-            // Add all users who have verified this X username
-            data.users.forEach((user: FarcasterUser) => {
-              allUsers.push(user);
-            });
-            foundXUsernames.push(xUsername);
-          } else {
-            notFoundXUsernames.push(xUsername);
-          }
-        } else if (response.status === 404) {
-          // User not found
-          console.log(`X username ${xUsername} not found`);
-          notFoundXUsernames.push(xUsername);
-        } else {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-      } catch (error) {
-        console.error(`Error searching for X username ${xUsername}:`, error);
+  const allUsers: FarcasterUser[] = [];
+  const notFoundXUsernames: string[] = [];
+  const failedXUsernames: string[] = [];
+
+  await Promise.all(xUsernames.map(async xUsername => {
+    try {
+      const users = await runNeynarTask(() => lookupXUsername(xUsername));
+      if (users.length > 0) {
+        // Add all users who have verified this X username
+        allUsers.push(...users);
+      } else {
         notFoundXUsernames.push(xUsername);
       }
+    } catch (error) {
+      console.error(`Error searching for X username ${xUsername}:`, error);
+      failedXUsernames.push(xUsername);
     }
+  }));
 
-    return {
-      users: allUsers,
-      searchedXUsernames: xUsernames,
-      notFoundXUsernames
-    };
+  return {
+    users: allUsers,
+    searchedXUsernames: xUsernames,
+    notFoundXUsernames,
+    failedXUsernames
+  };
+}
+
+/**
+ * Look up a Farcaster user by exact username
+ * @param username - Username to look up
+ * @returns Promise with the user, or null when no user has that username
+ */
+async function lookupUsername(username: string): Promise<FarcasterUser | null> {
+  console.log(`Looking up user by username: ${username}`);
+
+  try {
+    // Use the Neynar SDK to lookup user by exact username
+    // Note: viewerFid is optional but may help with response format
+    const response = await client.lookupUserByUsername({
+      username: username,
+      viewerFid: 1 // Using FID 1 as a default viewer
+    });
+
+    // Check if user was found in response
+    if (response && response.user && response.user.fid) {
+      console.log(`Found user for ${username}:`, response.user.username, 'FID:', response.user.fid);
+      return response.user as FarcasterUser;
+    }
+
+    console.log(`No user found for ${username}. Response structure:`, Object.keys(response || {}));
+    return null;
   } catch (error) {
-    console.error('Error searching for users by X usernames:', error);
-    throw new Error(
-      error instanceof Error 
-        ? `Failed to search users: ${error.message}`
-        : 'Failed to search users'
-    );
+    // A 404 means the username doesn't exist; anything else is a failed lookup
+    const { status, response } = (error || {}) as { status?: unknown; response?: { status?: unknown } };
+    if (status === 404 || response?.status === 404) {
+      console.log(`Username ${username} not found`);
+      return null;
+    }
+    throw error;
   }
 }
 
 /**
  * Search for Farcaster users by usernames
+ * Lookups run concurrently through the shared Neynar limiter; lookups that fail
+ * (other than not found) are reported in failedUsernames
  * @param usernames - Array of usernames to search for
  * @returns Promise with search results
  */
 export async function searchUsersByUsernames(usernames: string[]): Promise<UsernameSearchResult> {
-  try {
-    console.log('Searching for users with usernames:', usernames);
-    
-    const allUsers: FarcasterUser[] = [];
-    const foundUsernames: string[] = [];
-    const notFoundUsernames: string[] = [];
+  console.log(`Searching for users with ${usernames.length} usernames`);
 
-    // Search for each username individually
-    for (const username of usernames) {
-      try {
-        console.log(`Looking up user by username: ${username}`);
-        
-        // Use the Neynar SDK to lookup user by exact username
-        // Note: viewerFid is optional but may help with response format
-        const response = await client.lookupUserByUsername({ 
-          username: username,
-          viewerFid: 1 // Using FID 1 as a default viewer
-        });
-        
-        console.log(`Username lookup response for ${username}:`, JSON.stringify(response, null, 2));
+  const allUsers: FarcasterUser[] = [];
+  const notFoundUsernames: string[] = [];
+  const failedUsernames: string[] = [];
 
-        // Check if user was found in response
-        if (response && response.user && response.user.fid) {
-          console.log(`Found user for ${username}:`, response.user.username, 'FID:', response.user.fid);
-          allUsers.push(response.user as FarcasterUser);
-          foundUsernames.push(username);
-        } else {
-          console.log(`No user found for ${username}. Response structure:`, Object.keys(response || {}));
-          notFoundUsernames.push(username);
-        }
-      } catch (error) {
-        console.error(`Error looking up username ${username}:`, error);
-        
-        // Log more details about the error
-        if (error instanceof Error) {
-          console.error(`Error message: ${error.message}`);
-          console.error(`Error stack: ${error.stack}`);
-        }
-        
-        // Check if it's a 404 (user not found) vs other errors
-        if (error && typeof error === 'object' && 'status' in error) {
-          console.error(`HTTP Status: ${(error as { status: unknown }).status}`);
-        }
-        
+  await Promise.all(usernames.map(async username => {
+    try {
+      const user = await runNeynarTask(() => lookupUsername(username));
+      if (user) {
+        allUsers.push(user);
+      } else {
         notFoundUsernames.push(username);
       }
+    } catch (error) {
+      console.error(`Error looking up username ${username}:`, error);
+      failedUsernames.push(username);
     }
+  }));
 
-    return {
-      users: allUsers,
-      searchedUsernames: usernames,
-      notFoundUsernames
-    };
-  } catch (error) {
-    console.error('Error searching for users by usernames:', error);
-    throw new Error(
-      error instanceof Error 
-        ? `Failed to search users: ${error.message}`
-        : 'Failed to search users'
-    );
-  }
+  return {
+    users: allUsers,
+    searchedUsernames: usernames,
+    notFoundUsernames,
+    failedUsernames
+  };
 }
 
 // Token Balance Interfaces
+
+// Where a balance was read from: Neynar's balance API, our own RPC reads of a
+// verified address, or RPC reads of a Bankr wallet
+export type TokenSource = 'neynar' | 'rpc' | 'bankr';
+
+export interface TokenWalletBalance {
+  address: string;
+  source: TokenSource;
+  balance: string;
+  value_usd: number;
+}
+
 export interface TokenBalance {
   token_address: string;
   token_name: string;
@@ -397,6 +467,11 @@ export interface TokenBalance {
   price_usd?: number;
   value_usd?: number;
   logo_url?: string;
+  chain: ChainKey;
+  // Source of the first balance seen for this token (see wallets for the full breakdown)
+  source: TokenSource;
+  // Per-wallet balances that make up the aggregated balance
+  wallets: TokenWalletBalance[];
 }
 
 export interface UserBalanceResponse {
@@ -407,166 +482,478 @@ export interface UserBalanceResponse {
   };
 }
 
+export type TokenSortKey = 'value' | 'balance' | 'symbol' | 'chain';
+
+export interface TokenBalanceQuery {
+  // Page size and start index into the sorted holdings
+  limit?: number;
+  offset?: number;
+  // Drop holdings worth less than this many USD (unpriced tokens count as $0)
+  minValueUsd?: number;
+  sort?: TokenSortKey;
+  // Return the tokens hidden by the filter rules, with the reason for each
+  includeFiltered?: boolean;
+  // Only return holdings of this Base token contract, which is always checked on-chain
+  // even if token discovery didn't find it
+  tokenAddress?: string;
+}
+
 export interface TokenBalanceResult {
   fid: number;
   tokens: TokenBalance[];
+  // Number of holdings matching the query before limit/offset are applied
+  total_count: number;
+  // Totals cover every matching holding, not just the returned page
   total_value_usd: number;
+  chain_totals?: Partial<Record<ChainKey, number>>;
+  // Lending receipts, LP tokens, vault shares and staked ETH, kept out of tokens and totals
+  positions: DefiPosition[];
+  positions_value_usd: number;
+  // How held ERC-20s were found: 'indexed' (Alchemy, complete) or 'recent' (recent Transfer logs only)
+  token_discovery?: 'indexed' | 'recent';
+  // Only set when the query asks for includeFiltered
+  filtered_tokens?: FilteredTokenBalance[];
+  filter_rules_version?: number;
   error?: string;
 }
 
-// Function to fetch token balances for specific addresses using Base RPC calls
-async function fetchTokenBalancesForAddresses(addresses: string[]): Promise<TokenBalance[]> {
+// Function to fetch token balances for specific addresses using EVM and Solana RPC calls
+async function fetchTokenBalancesForAddresses(addresses: string[], source: TokenSource = 'rpc', extraBaseTokens: string[] = []): Promise<TokenBalance[]> {
   const allTokens: TokenBalance[] = [];
   
   for (const address of addresses) {
-    console.log(`🔗 Fetching ALL ERC-20 tokens for address: ${address}`);
-    
     try {
-      // Skip Solana addresses for now
-      if (address.length > 42) {
-        console.log(`⏭️ Skipping Solana address: ${address}`);
+      // Solana addresses get SOL + SPL holdings from the Solana RPC
+      if (isValidSolanaAddress(address)) {
+        const solanaTokens = await fetchSolanaBalances(address);
+        allTokens.push(...solanaTokens.map(token => withSource(token, source)));
         continue;
       }
       
-      // Specifically check for mintedmerch token using public Base RPC
-      // This avoids Alchemy rate limits and targets the exact token we need
-      const mintedMerchAddress = '0x774eaefe73df7959496ac92a77279a8d7d690b07';
+      console.log(`🔗 Fetching native ETH and ALL ERC-20 tokens for address: ${address} on ${EVM_CHAIN_KEYS.join(', ')}`);
       
-      // Multiple RPC endpoints for fallback
+      // Native balance plus token list + Transfer log discovery, batched through multicall, on every EVM chain
+      const chainResults = await Promise.all(EVM_CHAIN_KEYS.map(async (chain) => {
+        try {
+          const [nativeBalance, erc20Balances] = await Promise.all([
+            fetchNativeBalance(address, chain),
+            fetchErc20Balances(address, chain, chain === 'base' ? extraBaseTokens : [])
+          ]);
+          return nativeBalance ? [nativeBalance, ...erc20Balances] : erc20Balances;
+        } catch (error) {
+          console.error(`❌ Error fetching ${chain} token balances for address ${address}:`, error);
+          return [];
+        }
+      }));
+      const addressTokens = chainResults.flat();
+      console.log(`🔗 Found ${addressTokens.length} native and ERC-20 tokens in ${address}`);
       
-      // ERC-20 balanceOf function call data
-      // balanceOf(address) = 0x70a08231 + padded address
-      const paddedAddress = address.slice(2).padStart(64, '0');
-      const callData = '0x70a08231' + paddedAddress;
+      allTokens.push(...addressTokens.map(token => withSource(token, source)));
       
-      console.log(`🔍 Checking mintedmerch for ${address}:`);
-      console.log(`   - Padded address: ${paddedAddress}`);
-      console.log(`   - Call data: ${callData}`);
+    } catch (error) {
+      console.error(`❌ Error fetching token balances for address ${address}:`, error);
+    }
+  }
+  
+  console.log(`🔗 Total tokens found across ${addresses.length} addresses: ${allTokens.length}`);
+  return allTokens;
+}
+
+/**
+ * Relabel an RPC-read token (and its wallet entries) with the source it was fetched for
+ */
+function withSource(token: TokenBalance, source: TokenSource): TokenBalance {
+  if (token.source === source) {
+    return token;
+  }
+  return {
+    ...token,
+    source,
+    wallets: token.wallets.map(wallet => ({ ...wallet, source }))
+  };
+}
+
+/**
+ * Fetch the custody address and verified addresses for a user by their FID
+ * Neynar's balance endpoint only covers verified EVM addresses, so the custody address
+ * and verified Solana addresses are read from the user profile
+ * @param fid - Farcaster ID of the user
+ * @returns Promise with the user's custody address (if any) and verified ETH and Solana addresses
+ */
+export async function fetchUserWalletAddresses(fid: number): Promise<{ custodyAddress: string | null; ethAddresses: string[]; solAddresses: string[] }> {
+  try {
+    const response = await client.fetchBulkUsers({ fids: [fid] });
+    const user = response.users?.[0] as FarcasterUser | undefined;
+    return {
+      custodyAddress: user?.custody_address || null,
+      ethAddresses: user?.verified_addresses?.eth_addresses || [],
+      solAddresses: user?.verified_addresses?.sol_addresses || []
+    };
+  } catch (error) {
+    console.error(`Error fetching wallet addresses for FID ${fid}:`, error);
+    return { custodyAddress: null, ethAddresses: [], solAddresses: [] };
+  }
+}
+
+// Default page size for token holdings, and the most a single request may ask for
+export const DEFAULT_TOKEN_LIMIT = 10;
+export const MAX_TOKEN_LIMIT = 100;
+
+const TOKEN_SORTERS: Record<TokenSortKey, (a: TokenBalance, b: TokenBalance) => number> = {
+  value: (a, b) => (b.value_usd || 0) - (a.value_usd || 0),
+  balance: (a, b) => (parseFloat(b.balance) || 0) - (parseFloat(a.balance) || 0),
+  symbol: (a, b) => a.token_symbol.localeCompare(b.token_symbol) || (b.value_usd || 0) - (a.value_usd || 0),
+  chain: (a, b) => a.chain.localeCompare(b.chain) || (b.value_usd || 0) - (a.value_usd || 0),
+};
+
+interface AggregatedHoldings {
+  // Holdings that passed the filter rules, merged per chain and token, unsorted
+  tokens: TokenBalance[];
+  positions: DefiPosition[];
+  positionsValueUsd: number;
+  // Tokens and positions hidden by the filter rules
+  hidden: FilteredTokenBalance[];
+  rulesVersion: number;
+}
+
+// Aggregated holdings are reused across pages and sort orders for a short while, so
+// "Show more" slices the cached result instead of rerunning discovery, pricing and DeFi probes
+const HOLDINGS_CACHE_TTL_MS = Number(process.env.HOLDINGS_CACHE_TTL_MS || String(60 * 1000));
+const holdingsCache = new Map<string, { holdings: Promise<AggregatedHoldings>; expiresAt: number }>();
+
+/**
+ * Fetch, price, merge, classify and filter every holding of a user (no paging or sorting)
+ * @param fid - Farcaster ID of the user
+ * @param bankrAddresses - Bankr wallet addresses to include
+ * @param extraBaseTokens - Base token contracts to always check on-chain
+ * @returns Promise with the aggregated holdings
+ */
+async function loadAggregatedHoldings(fid: number, bankrAddresses: string[], extraBaseTokens: string[]): Promise<AggregatedHoldings> {
+  console.log(`Fetching token balances for FID: ${fid}`);
+
+  const response = await client.fetchUserBalance({
+    fid: fid,
+    networks: EVM_CHAIN_KEYS
+  });
+
+  console.log(`Token balance response for FID ${fid}:`, JSON.stringify(response, null, 2));
+
+  if (!response || !response.user_balance) {
+    console.log(`No balance data found for FID ${fid}`);
+    return { tokens: [], positions: [], positionsValueUsd: 0, hidden: [], rulesVersion: 0 };
+  }
+
+  const balanceData = response.user_balance;
+  
+  // Extract tokens from all verified addresses
+  const addressBalances = (balanceData as { address_balances?: unknown[] }).address_balances || [];
+  console.log(`Found ${addressBalances.length} verified addresses for FID ${fid}`);
+  
+  // Flatten all token balances across all addresses
+  const allTokens: TokenBalance[] = [];
+  
+  for (const addressBalance of addressBalances) {
+    const addressBalanceData = addressBalance as { 
+      token_balances?: unknown[]; 
+      verified_address?: { address?: string; network?: string } 
+    };
+    const tokenBalances = addressBalanceData.token_balances || [];
+    const address = addressBalanceData.verified_address?.address;
+    const chain = chainKeyFromNetwork(addressBalanceData.verified_address?.network) || 'base';
+    console.log(`Address ${address} on ${chain}: ${tokenBalances.length} tokens`);
+    
+    // Check specifically for mintedmerch in this address
+    let foundMintedMerchInAddress = false;
+    
+    for (const tokenBalance of tokenBalances) {
+      const tokenBalanceData = tokenBalance as { 
+        token?: { name?: string; symbol?: string; contract_address?: string };
+        balance?: { in_token?: number; in_usdc?: number }
+      };
+      const token = tokenBalanceData.token;
+      const balance = tokenBalanceData.balance;
       
-      // Try multiple RPC endpoints with retry logic
-      const rpcEndpoints = [
-        'https://mainnet.base.org',
-        'https://base.llamarpc.com',
-        'https://base-mainnet.public.blastapi.io'
-      ];
+      // Check if this is mintedmerch token
+      const isMintedMerch = token?.contract_address?.toLowerCase() === '0x774eaefe73df7959496ac92a77279a8d7d690b07';
+      if (isMintedMerch) {
+        foundMintedMerchInAddress = true;
+        console.log(`🎯 FOUND MINTEDMERCH in address ${address}:`);
+        console.log(`   - Token Name: ${token?.name}`);
+        console.log(`   - Token Symbol: ${token?.symbol}`);
+        console.log(`   - Contract: ${token?.contract_address}`);
+        console.log(`   - Balance (in_token): ${balance?.in_token}`);
+        console.log(`   - USD Value (in_usdc): ${balance?.in_usdc}`);
+      }
+
+      // Map to our TokenBalance interface (temporarily without logo)
+      const mappedToken: TokenBalance = {
+        token_address: token?.contract_address || 'native',
+        token_name: token?.name || token?.symbol || 'Unknown',
+        token_symbol: token?.symbol || 'UNKNOWN',
+        balance: balance?.in_token?.toString() || '0',
+        value_usd: balance?.in_usdc || 0,
+        logo_url: undefined, // Will be populated later
+        chain,
+        source: 'neynar',
+        wallets: address ? [{
+          address: address.toLowerCase(),
+          source: 'neynar',
+          balance: balance?.in_token?.toString() || '0',
+          value_usd: balance?.in_usdc || 0
+        }] : []
+      };
       
-      let response = null;
-      let data = null;
+      allTokens.push(mappedToken);
+    }
+    
+    if (!foundMintedMerchInAddress && (address?.endsWith('5310') || address?.endsWith('fc20') || address?.endsWith('3888'))) {
+      console.log(`❌ MINTEDMERCH NOT FOUND in expected address ${address}`);
+    }
+  }
+
+  console.log(`Found ${allTokens.length} total tokens across all addresses for FID ${fid}`);
+
+  // Also fetch ALL tokens using EVM RPCs for verified addresses (to catch tokens Neynar missed)
+  // Neynar returns one address_balance per address per network, so dedupe first
+  const verifiedAddresses = Array.from(new Set(addressBalances.map(ab => {
+    const addressBalanceData = ab as { verified_address?: { address?: string } };
+    return addressBalanceData.verified_address?.address?.toLowerCase();
+  }).filter(Boolean) as string[]));
+  
+  console.log(`🔗 Fetching ALL ERC-20 tokens via EVM RPCs for ${verifiedAddresses.length} verified addresses`);
+  const rpcTokensFromVerified = await fetchTokenBalancesForAddresses(verifiedAddresses, 'rpc', extraBaseTokens);
+  console.log(`🔗 Found ${rpcTokensFromVerified.length} additional tokens via EVM RPCs from verified addresses`);
+  
+  // Add RPC tokens from verified addresses
+  allTokens.push(...rpcTokensFromVerified);
+
+  // The custody address and verified Solana addresses aren't covered by Neynar's balance endpoint
+  const { custodyAddress, solAddresses: verifiedSolanaAddresses } = await fetchUserWalletAddresses(fid);
+  if (custodyAddress && !verifiedAddresses.includes(custodyAddress.toLowerCase())) {
+    console.log(`🔐 Fetching tokens for custody address ${custodyAddress}`);
+    const custodyTokens = await fetchTokenBalancesForAddresses([custodyAddress.toLowerCase()], 'rpc', extraBaseTokens);
+    console.log(`🔐 Found ${custodyTokens.length} tokens in custody address`);
+    allTokens.push(...custodyTokens);
+  }
+
+  if (verifiedSolanaAddresses.length > 0) {
+    console.log(`☀️ Fetching Solana tokens for ${verifiedSolanaAddresses.length} verified Solana addresses`);
+    const solanaTokensFromVerified = await fetchTokenBalancesForAddresses(verifiedSolanaAddresses);
+    console.log(`☀️ Found ${solanaTokensFromVerified.length} tokens from verified Solana addresses`);
+    allTokens.push(...solanaTokensFromVerified);
+  }
+
+  // Fetch token balances for Bankr wallet addresses (if any)
+  if (bankrAddresses.length > 0) {
+    console.log(`🔗 Fetching token balances for ${bankrAddresses.length} Bankr wallet addresses`);
+    const bankrTokens = await fetchTokenBalancesForAddresses(bankrAddresses, 'bankr', extraBaseTokens);
+    console.log(`🔗 Found ${bankrTokens.length} tokens from Bankr wallets`);
+    
+    // Add Bankr tokens to the combined list
+    allTokens.push(...bankrTokens);
+    console.log(`🔗 Combined total: ${allTokens.length} tokens (${allTokens.length - bankrTokens.length - rpcTokensFromVerified.length} from Neynar + ${rpcTokensFromVerified.length} from verified RPC + ${bankrTokens.length} from Bankr RPC)`);
+  } else {
+    console.log(`🔗 Combined total: ${allTokens.length} tokens (${allTokens.length - rpcTokensFromVerified.length} from Neynar + ${rpcTokensFromVerified.length} from verified RPC)`);
+  }
+
+  // Price tokens that came back without a USD value (RPC-discovered tokens)
+  // before aggregating, so every wallet entry carries its own USD value
+  console.log(`💲 Pricing tokens without USD values...`);
+  await applyTokenPrices(allTokens);
+
+  // Aggregate tokens per chain by contract address (combine same tokens from different wallets)
+  const tokenGroups = new Map<string, TokenBalance>();
+
+  for (const token of allTokens) {
+    // Use chain + contract address as key (lowercase for consistency)
+    const key = `${token.chain}:${token.token_address.toLowerCase()}`;
+    const isMintedMerch = key === 'base:0x774eaefe73df7959496ac92a77279a8d7d690b07';
+    
+    if (tokenGroups.has(key)) {
+      // Aggregate with existing token
+      const existing = tokenGroups.get(key)!;
       
-      for (const rpcUrl of rpcEndpoints) {
-        try {
-          console.log(`   - Trying RPC: ${rpcUrl}`);
-          
-          response = await fetch(rpcUrl, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              id: 1,
-              jsonrpc: '2.0',
-              method: 'eth_call',
-              params: [{
-                to: mintedMerchAddress,
-                data: callData
-              }, 'latest']
-            })
-          });
-          
-          if (!response.ok) {
-            console.log(`   - RPC ${rpcUrl} failed with status: ${response.status}`);
-            continue; // Try next endpoint
-          }
-          
-          data = await response.json();
-          
-          if (data.error) {
-            console.log(`   - RPC ${rpcUrl} returned error:`, data.error);
-            continue; // Try next endpoint
-          }
-          
-          console.log(`   - ✅ RPC ${rpcUrl} succeeded`);
-          break; // Success, exit loop
-          
-        } catch (error) {
-          console.log(`   - RPC ${rpcUrl} threw error:`, error);
-          continue; // Try next endpoint
+      for (const wallet of token.wallets) {
+        // Neynar and our RPC pass both read verified addresses; keep the first
+        // (Neynar) balance for a wallet instead of counting it twice
+        if (existing.wallets.some(w => w.address.toLowerCase() === wallet.address.toLowerCase())) {
+          console.log(`⏭️ Skipping duplicate ${existing.token_symbol} balance for ${wallet.address} from ${wallet.source}`);
+          continue;
+        }
+        
+        const existingBalance = parseFloat(existing.balance) || 0;
+        const newTokenBalance = parseFloat(wallet.balance) || 0;
+        const combinedBalance = existingBalance + newTokenBalance;
+        const combinedValue = (existing.value_usd || 0) + wallet.value_usd;
+        
+        // Update the aggregated token
+        existing.wallets.push({ ...wallet });
+        existing.balance = combinedBalance.toString();
+        existing.value_usd = combinedValue;
+        
+        if (isMintedMerch) {
+          console.log(`🎯 AGGREGATING MINTEDMERCH: ${existingBalance} + ${newTokenBalance} = ${combinedBalance} tokens`);
+          console.log(`💰 AGGREGATING MINTEDMERCH USD: combined $${combinedValue}`);
+        } else {
+          console.log(`📊 Aggregated ${existing.token_symbol}: ${existingBalance} + ${newTokenBalance} = ${combinedBalance} (${existing.token_name})`);
         }
       }
       
-      if (!data || data.error) {
-        console.error(`❌ All RPC endpoints failed for ${address}`);
-        continue;
+      if (existing.price_usd === undefined && token.price_usd !== undefined) {
+        existing.price_usd = token.price_usd;
+      }
+    } else {
+      // First occurrence of this token
+      if (isMintedMerch) {
+        console.log(`🎯 ADDING MINTEDMERCH TO MAP: Balance=${token.balance}, USD=${token.value_usd}`);
       }
+      tokenGroups.set(key, { ...token, wallets: token.wallets.map(wallet => ({ ...wallet })) });
+    }
+  }
 
-      const balanceHex = data.result;
-      
-      console.log(`   - Raw balance response: ${balanceHex}`);
-      
-      if (!balanceHex || balanceHex === '0x0' || balanceHex === '0x') {
-        console.log(`❌ No mintedmerch balance found for ${address}`);
-        continue;
+  // Wallets no provider could price (e.g. an RPC balance of a token Neynar priced
+  // in another wallet) pick up the aggregated token's price
+  for (const token of tokenGroups.values()) {
+    if (!token.price_usd || !token.wallets.some(wallet => !wallet.value_usd)) {
+      continue;
+    }
+    for (const wallet of token.wallets) {
+      if (!wallet.value_usd) {
+        wallet.value_usd = (parseFloat(wallet.balance) || 0) * token.price_usd;
       }
+    }
+    token.value_usd = token.wallets.reduce((sum, wallet) => sum + wallet.value_usd, 0);
+  }
+
+  // Convert aggregated tokens back to array
+  const aggregatedTokens = Array.from(tokenGroups.values());
+  console.log(`After aggregation: ${aggregatedTokens.length} unique tokens for FID ${fid} (reduced from ${allTokens.length} individual entries)`);
+  
+  // Check if mintedmerch made it through aggregation
+  const mintedMerchAfterAggregation = aggregatedTokens.find(t => 
+    t.token_address.toLowerCase() === '0x774eaefe73df7959496ac92a77279a8d7d690b07'
+  );
+  if (mintedMerchAfterAggregation) {
+    console.log(`✅ MINTEDMERCH SURVIVED AGGREGATION: Balance=${mintedMerchAfterAggregation.balance}, USD=${mintedMerchAfterAggregation.value_usd}`);
+  } else {
+    console.log(`❌ MINTEDMERCH LOST DURING AGGREGATION`);
+  }
+
+  // Log all tokens before filtering to debug mintedmerch issue
+  console.log('🔍 All tokens before filtering:');
+  aggregatedTokens.forEach((token) => {
+    if (token.token_symbol?.toLowerCase().includes('minted') || 
+        token.token_name?.toLowerCase().includes('minted') ||
+        token.token_address?.toLowerCase() === '0x774eaefe73df7959496ac92a77279a8d7d690b07') {
+      console.log(`🎯 FOUND MINTEDMERCH TOKEN: ${token.token_name} (${token.token_symbol}) - Address: ${token.token_address}, Balance: ${token.balance}, USD Value: ${token.value_usd}`);
+    }
+  });
+
+  // Keep tokens with a USD value or a non-zero balance, then drop scam tokens
+  const tokensWithValue = aggregatedTokens
+    .filter((token: TokenBalance) => {
+      const hasValue = token.value_usd && token.value_usd > 0;
+      const isMintedMerch = token.token_address?.toLowerCase() === '0x774eaefe73df7959496ac92a77279a8d7d690b07';
       
-      // Convert hex balance to decimal using BigInt for precision
-      const balanceDecimal = BigInt(balanceHex);
-      const decimals = 18; // mintedmerch has 18 decimals
-      
-      // Use BigInt arithmetic to avoid precision loss
-      const divisor = BigInt(10) ** BigInt(decimals);
-      const wholePart = balanceDecimal / divisor;
-      const fractionalPart = balanceDecimal % divisor;
-      
-      // Convert to number with proper precision
-      const balanceFormatted = Number(wholePart) + Number(fractionalPart) / Number(divisor);
-      
-      console.log(`🎯 FOUND MINTEDMERCH in address ${address}!`);
-      console.log(`   - Balance: ${balanceFormatted.toLocaleString()} tokens`);
-      console.log(`   - Raw balance: ${balanceHex}`);
-      console.log(`   - Decimals: ${decimals}`);
-      
-      // Calculate USD value
-      const pricePerToken = 0.000004235; // From DexScreener
-      const usdValue = balanceFormatted * pricePerToken;
-      
-      // Create token balance object
-      const tokenBalanceObj: TokenBalance = {
-        token_address: mintedMerchAddress,
-        token_name: 'Minted Merch',
-        token_symbol: 'mintedmerch',
-        balance: balanceFormatted.toString(),
-        value_usd: usdValue,
-        logo_url: undefined
-      };
-      
-      console.log(`✅ MINTEDMERCH TOKEN FOUND: Balance: ${balanceFormatted.toLocaleString()}, USD: $${usdValue.toFixed(2)}`);
+      // Always include mintedmerch token even without USD pricing
+      if (isMintedMerch) {
+        console.log(`🎯 KEEPING MINTEDMERCH TOKEN: ${token.token_name} (${token.token_symbol}) - Balance: ${token.balance}, USD Value: ${token.value_usd}`);
+        return true;
+      }
       
-      allTokens.push(tokenBalanceObj);
+      // Keep tokens no price provider could value, as long as they have a balance
+      if ((!token.value_usd || token.value_usd === 0) && token.balance) {
+        return parseFloat(token.balance) > 0;
+      }
       
-    } catch (error) {
-      console.error(`❌ Error fetching token balances for address ${address}:`, error);
-    }
-  }
+      if (!hasValue && (token.token_symbol?.toLowerCase().includes('minted') || 
+                       token.token_name?.toLowerCase().includes('minted'))) {
+        console.log(`❌ OTHER MINTED TOKEN FILTERED OUT - No USD value: ${token.token_name} (${token.token_symbol}) - USD Value: ${token.value_usd}`);
+      }
+      return hasValue;
+    });
   
-  console.log(`🔗 Total tokens found across ${addresses.length} addresses: ${allTokens.length}`);
-  return allTokens;
+  // Pull lending receipts, LP tokens, vault shares and staked ETH out into their own section
+  const { tokens: plainTokens, positions: detectedPositions } = await classifyDefiPositions(tokensWithValue);
+  
+  // Remove scam tokens using the data-driven filter rules
+  const { tokens: filteredTokens, positions, hidden, rules_version: rulesVersion } = filterHoldings(plainTokens, detectedPositions);
+  const positionsValueUsd = positions.reduce((sum, position) => sum + (position.value_usd || 0), 0);
+  
+  console.log(`After scam filtering: ${filteredTokens.length} legitimate tokens and ${positions.length} positions remaining for FID ${fid} (${hidden.length} filtered by rules v${rulesVersion})`);
+
+  return {
+    tokens: filteredTokens,
+    positions,
+    positionsValueUsd,
+    hidden,
+    rulesVersion
+  };
+}
+
+/**
+ * Get a user's aggregated holdings, from the cache if a recent lookup covered the same wallets
+ * Concurrent requests share the in-flight lookup; failed lookups aren't cached
+ * @param fid - Farcaster ID of the user
+ * @param bankrAddresses - Bankr wallet addresses to include
+ * @param extraBaseTokens - Base token contracts to always check on-chain
+ * @returns Promise with the aggregated holdings
+ */
+function getAggregatedHoldings(fid: number, bankrAddresses: string[], extraBaseTokens: string[]): Promise<AggregatedHoldings> {
+  const normalize = (addresses: string[]) => addresses.map(address => address.toLowerCase()).sort().join(',');
+  const key = `${fid}|${normalize(bankrAddresses)}|${normalize(extraBaseTokens)}`;
+  const now = Date.now();
+
+  const cached = holdingsCache.get(key);
+  if (cached && cached.expiresAt > now) {
+    console.log(`♻️ Reusing aggregated holdings for FID ${fid}`);
+    return cached.holdings;
+  }
+
+  for (const [cachedKey, entry] of holdingsCache) {
+    if (entry.expiresAt <= now) holdingsCache.delete(cachedKey);
+  }
+
+  const holdings = loadAggregatedHoldings(fid, bankrAddresses, extraBaseTokens);
+  holdingsCache.set(key, { holdings, expiresAt: now + HOLDINGS_CACHE_TTL_MS });
+  holdings.catch(() => holdingsCache.delete(key));
+  return holdings;
 }
 
 /**
  * Fetch token balances for a user by their FID
- * Returns top 10 tokens sorted by USD value (highest first)
- * Includes balances from both verified addresses (via Neynar) and Bankr wallets
+ * Returns one page of holdings, sorted by USD value (highest first) unless another sort is requested
+ * Includes balances from verified addresses (via Neynar and EVM RPCs), the custody
+ * address (via EVM RPCs), verified
+ * Solana addresses (via Solana RPC) and Bankr wallets. Tokens are merged per chain,
+ * each keeping a per-wallet breakdown of where the balance sits
  * @param fid - Farcaster ID of the user
  * @param bankrAddresses - Optional array of Bankr wallet addresses to include
+ * @param query - Optional limit, offset, minimum USD value and sort order
  * @returns Promise with token balance results
  */
-export async function fetchUserTokenBalances(fid: number, bankrAddresses: string[] = []): Promise<TokenBalanceResult> {
+export async function fetchUserTokenBalances(
+  fid: number,
+  bankrAddresses: string[] = [],
+  query: TokenBalanceQuery = {}
+): Promise<TokenBalanceResult> {
+  const {
+    limit = DEFAULT_TOKEN_LIMIT,
+    offset = 0,
+    minValueUsd = 0,
+    sort = 'value',
+    includeFiltered = false,
+    tokenAddress
+  } = query;
+  const extraBaseTokens = tokenAddress ? [tokenAddress] : [];
+
+
     // Get token logo URL from multiple sources with fallbacks
-  const getTokenLogoUrl = async (tokenAddress: string, symbol: string): Promise<string | undefined> => {
+  const getTokenLogoUrl = async (tokenAddress: string, symbol: string, chain: ChainKey): Promise<string | undefined> => {
     if (!tokenAddress || tokenAddress === 'native') {
       // Handle native tokens
-      if (symbol === 'ETH') {
-        return 'https://assets.coingecko.com/coins/images/279/small/ethereum.png';
+      if (symbol === CHAINS[chain].nativeToken.symbol) {
+        return CHAINS[chain].nativeToken.logo_url;
       }
       return undefined;
     }
@@ -584,6 +971,7 @@ export async function fetchUserTokenBalances(fid: number, bankrAddresses: string
       '0x0578d8a44db98b23bf096a382e016e29a5ce0ffe': 'https://assets.coingecko.com/coins/images/36617/small/higher.jpg', // HIGHER
       '0x8c9037d1ef5c6d1f6816278c7aaf5491d24cd527': 'https://assets.coingecko.com/coins/images/38013/small/Frame_20_%281%29.png', // MOXIE
       '0x1111111111166b7fe7bd91427724b487980afc69': 'https://assets.coingecko.com/coins/images/31622/small/zora-logo-200x200.png', // ZORA
+      'so11111111111111111111111111111111111111112': 'https://assets.coingecko.com/coins/images/4128/small/solana.png', // WSOL
     };
     
     // Check if we have a known logo for this token
@@ -593,7 +981,7 @@ export async function fetchUserTokenBalances(fid: number, bankrAddresses: string
     
     // Try DexScreener API for token logo
     try {
-      const dexScreenerUrl = `https://api.dexscreener.com/tokens/v1/base/${tokenAddress}`;
+      const dexScreenerUrl = `https://api.dexscreener.com/tokens/v1/${CHAINS[chain].dexScreenerId}/${tokenAddress}`;
       const response = await fetch(dexScreenerUrl);
       
       if (response.ok) {
@@ -614,169 +1002,41 @@ export async function fetchUserTokenBalances(fid: number, bankrAddresses: string
     
     // Fall back to TrustWallet with proper checksum case
     const checksumAddress = tokenAddress; // Keep original case for now
-    return `https://raw.githubusercontent.com/trustwallet/assets/master/blockchains/base/assets/${checksumAddress}/logo.png`;
+    return `https://raw.githubusercontent.com/trustwallet/assets/master/blockchains/${CHAINS[chain].dexScreenerId}/assets/${checksumAddress}/logo.png`;
   };
 
   try {
-    console.log(`Fetching token balances for FID: ${fid}`);
-
-    const response = await client.fetchUserBalance({
-      fid: fid,
-      networks: ['base'] // Currently only 'base' network is supported
-    });
-
-    console.log(`Token balance response for FID ${fid}:`, JSON.stringify(response, null, 2));
-
-    if (!response || !response.user_balance) {
-      console.log(`No balance data found for FID ${fid}`);
-      return {
-        fid,
-        tokens: [],
-        total_value_usd: 0
-      };
-    }
-
-    const balanceData = response.user_balance;
-    
-    // Extract tokens from all verified addresses
-    const addressBalances = (balanceData as { address_balances?: unknown[] }).address_balances || [];
-    console.log(`Found ${addressBalances.length} verified addresses for FID ${fid}`);
-    
-    // Flatten all token balances across all addresses
-    const allTokens: TokenBalance[] = [];
-    
-    for (const addressBalance of addressBalances) {
-      const addressBalanceData = addressBalance as { 
-        token_balances?: unknown[]; 
-        verified_address?: { address?: string } 
-      };
-      const tokenBalances = addressBalanceData.token_balances || [];
-      const address = addressBalanceData.verified_address?.address;
-      console.log(`Address ${address}: ${tokenBalances.length} tokens`);
-      
-      // Check specifically for mintedmerch in this address
-      let foundMintedMerchInAddress = false;
-      
-      for (const tokenBalance of tokenBalances) {
-        const tokenBalanceData = tokenBalance as { 
-          token?: { name?: string; symbol?: string; contract_address?: string };
-          balance?: { in_token?: number; in_usdc?: number }
-        };
-        const token = tokenBalanceData.token;
-        const balance = tokenBalanceData.balance;
-        
-        // Check if this is mintedmerch token
-        const isMintedMerch = token?.contract_address?.toLowerCase() === '0x774eaefe73df7959496ac92a77279a8d7d690b07';
-        if (isMintedMerch) {
-          foundMintedMerchInAddress = true;
-          console.log(`🎯 FOUND MINTEDMERCH in address ${address}:`);
-          console.log(`   - Token Name: ${token?.name}`);
-          console.log(`   - Token Symbol: ${token?.symbol}`);
-          console.log(`   - Contract: ${token?.contract_address}`);
-          console.log(`   - Balance (in_token): ${balance?.in_token}`);
-          console.log(`   - USD Value (in_usdc): ${balance?.in_usdc}`);
-        }
-
-        // Map to our TokenBalance interface (temporarily without logo)
-        const mappedToken: TokenBalance = {
-          token_address: token?.contract_address || 'native',
-          token_name: token?.name || token?.symbol || 'Unknown',
-          token_symbol: token?.symbol || 'UNKNOWN',
-          balance: balance?.in_token?.toString() || '0',
-          value_usd: balance?.in_usdc || 0,
-          logo_url: undefined, // Will be populated later
-        };
-        
-        allTokens.push(mappedToken);
-      }
-      
-      if (!foundMintedMerchInAddress && (address?.endsWith('5310') || address?.endsWith('fc20') || address?.endsWith('3888'))) {
-        console.log(`❌ MINTEDMERCH NOT FOUND in expected address ${address}`);
-      }
-    }
-
-    console.log(`Found ${allTokens.length} total tokens across all addresses for FID ${fid}`);
-
-    // Also fetch ALL tokens using Base RPC for verified addresses (to catch tokens Neynar missed)
-    const verifiedAddresses = addressBalances.map(ab => {
-      const addressBalanceData = ab as { verified_address?: { address?: string } };
-      return addressBalanceData.verified_address?.address;
-    }).filter(Boolean) as string[];
-    
-    console.log(`🔗 Fetching ALL ERC-20 tokens via Base RPC for ${verifiedAddresses.length} verified addresses`);
-    const rpcTokensFromVerified = await fetchTokenBalancesForAddresses(verifiedAddresses);
-    console.log(`🔗 Found ${rpcTokensFromVerified.length} additional tokens via Base RPC from verified addresses`);
+    const {
+      tokens: filteredTokens,
+      positions,
+      positionsValueUsd,
+      hidden,
+      rulesVersion
+    } = await getAggregatedHoldings(fid, bankrAddresses, extraBaseTokens);
     
-    // Add RPC tokens from verified addresses
-    allTokens.push(...rpcTokensFromVerified);
-
-    // Fetch token balances for Bankr wallet addresses (if any)
-    if (bankrAddresses.length > 0) {
-      console.log(`🔗 Fetching token balances for ${bankrAddresses.length} Bankr wallet addresses`);
-      const bankrTokens = await fetchTokenBalancesForAddresses(bankrAddresses);
-      console.log(`🔗 Found ${bankrTokens.length} tokens from Bankr wallets`);
-      
-      // Add Bankr tokens to the combined list
-      allTokens.push(...bankrTokens);
-      console.log(`🔗 Combined total: ${allTokens.length} tokens (${allTokens.length - bankrTokens.length - rpcTokensFromVerified.length} from Neynar + ${rpcTokensFromVerified.length} from verified RPC + ${bankrTokens.length} from Bankr RPC)`);
-    } else {
-      console.log(`🔗 Combined total: ${allTokens.length} tokens (${allTokens.length - rpcTokensFromVerified.length} from Neynar + ${rpcTokensFromVerified.length} from verified RPC)`);
-    }
+    const sortedTokens = filteredTokens
+      .filter((token: TokenBalance) => minValueUsd <= 0 || (token.value_usd || 0) >= minValueUsd)
+      .filter((token: TokenBalance) => !tokenAddress || (token.chain === 'base' && token.token_address.toLowerCase() === tokenAddress.toLowerCase()))
+      .sort(TOKEN_SORTERS[sort]);
 
-    // Aggregate tokens by contract address (combine same tokens from different wallets)
-    const tokenGroups = new Map<string, TokenBalance>();
+    // Calculate total USD value
+    const totalValueUsd = sortedTokens.reduce((sum: number, token: TokenBalance) => sum + (token.value_usd || 0), 0);
 
-    for (const token of allTokens) {
-      // Use contract address as key (lowercase for consistency)
-      const key = token.token_address.toLowerCase();
-      const isMintedMerch = key === '0x774eaefe73df7959496ac92a77279a8d7d690b07';
-      
-      if (tokenGroups.has(key)) {
-        // Aggregate with existing token
-        const existing = tokenGroups.get(key)!;
-        const existingBalance = parseFloat(existing.balance) || 0;
-        const newTokenBalance = parseFloat(token.balance) || 0;
-        const combinedBalance = existingBalance + newTokenBalance;
-        const combinedValue = (existing.value_usd || 0) + (token.value_usd || 0);
-        
-        // Update the aggregated token
-        existing.balance = combinedBalance.toString();
-        existing.value_usd = combinedValue;
-        
-        if (isMintedMerch) {
-          console.log(`🎯 AGGREGATING MINTEDMERCH: ${existingBalance} + ${newTokenBalance} = ${combinedBalance} tokens`);
-          console.log(`💰 AGGREGATING MINTEDMERCH USD: $${existing.value_usd || 0} + $${token.value_usd || 0} = $${combinedValue}`);
-        } else {
-          console.log(`📊 Aggregated ${existing.token_symbol}: ${existingBalance} + ${newTokenBalance} = ${combinedBalance} (${existing.token_name})`);
-        }
-      } else {
-        // First occurrence of this token
-        if (isMintedMerch) {
-          console.log(`🎯 ADDING MINTEDMERCH TO MAP: Balance=${token.balance}, USD=${token.value_usd}`);
-        }
-        tokenGroups.set(key, { ...token });
-      }
+    // Break the total down per chain
+    const chainTotals: Partial<Record<ChainKey, number>> = {};
+    for (const token of sortedTokens) {
+      const chain = token.chain;
+      chainTotals[chain] = (chainTotals[chain] || 0) + (token.value_usd || 0);
     }
 
-    // Convert aggregated tokens back to array
-    const aggregatedTokens = Array.from(tokenGroups.values());
-    console.log(`After aggregation: ${aggregatedTokens.length} unique tokens for FID ${fid} (reduced from ${allTokens.length} individual entries)`);
-    
-    // Check if mintedmerch made it through aggregation
-    const mintedMerchAfterAggregation = aggregatedTokens.find(t => 
-      t.token_address.toLowerCase() === '0x774eaefe73df7959496ac92a77279a8d7d690b07'
-    );
-    if (mintedMerchAfterAggregation) {
-      console.log(`✅ MINTEDMERCH SURVIVED AGGREGATION: Balance=${mintedMerchAfterAggregation.balance}, USD=${mintedMerchAfterAggregation.value_usd}`);
-    } else {
-      console.log(`❌ MINTEDMERCH LOST DURING AGGREGATION`);
-    }
+    const pagedTokens = sortedTokens.slice(offset, offset + limit);
 
-    // Populate token logos (async operation)
-    console.log(`🖼️ Fetching logos for ${aggregatedTokens.length} tokens...`);
-    await Promise.all(aggregatedTokens.map(async (token) => {
+    // Populate token logos for the requested page and positions only (async operation);
+    // cached holdings keep the logos found for earlier pages
+    console.log(`🖼️ Fetching logos for ${pagedTokens.length} tokens and ${positions.length} positions...`);
+    await Promise.all([...pagedTokens, ...positions].filter(token => !token.logo_url).map(async (token) => {
       try {
-        const logoUrl = await getTokenLogoUrl(token.token_address, token.token_symbol);
+        const logoUrl = await getTokenLogoUrl(token.token_address, token.token_symbol, token.chain);
         token.logo_url = logoUrl;
         if (logoUrl) {
           console.log(`✅ Logo found for ${token.token_symbol}: ${logoUrl}`);
@@ -786,161 +1046,18 @@ export async function fetchUserTokenBalances(fid: number, bankrAddresses: string
       }
     }));
 
-    // Filter out known scam/fake tokens using targeted approach
-    const isLikelyScamToken = (token: TokenBalance): boolean => {
-      const value = token.value_usd || 0;
-      const balance = parseFloat(token.balance) || 0;
-      const nameToCheck = (token.token_name || '').toLowerCase();
-      const symbolToCheck = (token.token_symbol || '').toLowerCase();
-      const contractAddress = (token.token_address || '').toLowerCase();
-      
-      // Known scam token contracts, names, and symbols to blacklist
-      const knownScamTokens = {
-        // Contract addresses of known scam tokens
-        contracts: [
-          '0xc44a4f600f434c887be43449c8084ea0a08517b9', // PHY - Phylactery
-          '0xe9d43de0898df63ba125384240699f7e4bae61d9', // DRINK - Jelly Drink
-          '0xad20b837d28eff66af55ef0962c6bdb7c7888cb8', // HBK - Hoe Benk
-          '0xe3c84123d49cbfdfdfc94b9254525832eaca11f7', // Fake AERO with "visit" in symbol
-          '0xc7507de6824cdd759da0d08c0ddcc1a50bd0f26d', // FLIP - !!🏆👉flip gg👈
-        ],
-        // Token names and symbols
-        names: ['phylactery', 'jelly drink', 'hoe benk', 'cappa juice', '!!🏆👉flip gg👈'],
-        symbols: ['phy', 'drink', 'hbk', 'juice', 'flip'],
-        // Suspicious keywords in names/symbols
-        suspiciousKeywords: [
-          'visit', 'swap', 'claim', 'airdrop', 'free', 'bonus',
-          'winner', 'reward', 'gift', 'promo', '.com', '.xyz', '.to'
-        ]
-      };
-
-      // DeFi staking/wrapped tokens to filter out
-      const defiStakingTokens = {
-        contracts: [
-          '0xa0e430870c4604ccfc7b38ca7845b1ff653d0ff1', // mwETH - Moonwell Flagship ETH
-          '0xc1256ae5ff1cf2719d4937adb3bbccab2e00a2ca', // mwUSDC - Moonwell Flagship USDC
-        ],
-        symbols: ['mweth', 'mwusdc'],
-        nameKeywords: ['moonwell flagship', 'staked', 'wrapped', 'yield', 'vault']
-      };
-      
-      // Check scam token contract addresses
-      if (knownScamTokens.contracts.includes(contractAddress)) {
-        console.log(`Filtering known scam contract: ${token.token_name} (${token.token_symbol}) - ${contractAddress}`);
-        return true;
-      }
-      
-      // Check DeFi staking token contract addresses
-      if (defiStakingTokens.contracts.includes(contractAddress)) {
-        console.log(`Filtering DeFi staking token: ${token.token_name} (${token.token_symbol}) - ${contractAddress}`);
-        return true;
-      }
-      
-      // Check exact name/symbol matches for scam tokens
-      if (knownScamTokens.names.some(scam => nameToCheck === scam) ||
-          knownScamTokens.symbols.some(scam => symbolToCheck === scam)) {
-        console.log(`Filtering known scam token: ${token.token_name} (${token.token_symbol})`);
-        return true;
-      }
-      
-      // Check DeFi staking token symbols
-      if (defiStakingTokens.symbols.some(symbol => symbolToCheck === symbol)) {
-        console.log(`Filtering DeFi staking token by symbol: ${token.token_name} (${token.token_symbol})`);
-        return true;
-      }
-      
-      // Check DeFi staking token name keywords
-      if (defiStakingTokens.nameKeywords.some(keyword => nameToCheck.includes(keyword))) {
-        console.log(`Filtering DeFi staking token by name keyword: ${token.token_name} (${token.token_symbol})`);
-        return true;
-      }
-      
-      // Check for suspicious keywords in names/symbols
-      if (knownScamTokens.suspiciousKeywords.some(keyword => 
-        nameToCheck.includes(keyword) || symbolToCheck.includes(keyword)
-      )) {
-        console.log(`Filtering suspicious keyword token: ${token.token_name} (${token.token_symbol})`);
-        return true;
-      }
-      
-      // Filter extremely suspicious scenarios only
-      // 1. Tokens with impossibly high total values from tiny holdings
-      if (value > 10000000 && balance < 100) { // $10M+ from less than 100 tokens
-        console.log(`Filtering impossibly valued token: ${token.token_name} (${token.token_symbol}) - $${value.toLocaleString()} from ${balance} tokens`);
-        return true;
-      }
-      
-      // 2. Tokens with per-token value over $1M (even BTC is ~$100K)
-      const pricePerToken = balance > 0 ? value / balance : 0;
-      if (pricePerToken > 1000000) {
-        console.log(`Filtering extremely overvalued token: ${token.token_name} (${token.token_symbol}) - $${pricePerToken.toLocaleString()} per token`);
-        return true;
-      }
-      
-      return false;
-    };
-
-    // Log all tokens before filtering to debug mintedmerch issue
-    console.log('🔍 All tokens before filtering:');
-    aggregatedTokens.forEach((token) => {
-      if (token.token_symbol?.toLowerCase().includes('minted') || 
-          token.token_name?.toLowerCase().includes('minted') ||
-          token.token_address?.toLowerCase() === '0x774eaefe73df7959496ac92a77279a8d7d690b07') {
-        console.log(`🎯 FOUND MINTEDMERCH TOKEN: ${token.token_name} (${token.token_symbol}) - Address: ${token.token_address}, Balance: ${token.balance}, USD Value: ${token.value_usd}`);
-      }
-    });
-
-    // Filter out scam tokens and sort by USD value (descending) and take top 20
-    const tokensWithValue = aggregatedTokens
-      .filter((token: TokenBalance) => {
-        const hasValue = token.value_usd && token.value_usd > 0;
-        const isMintedMerch = token.token_address?.toLowerCase() === '0x774eaefe73df7959496ac92a77279a8d7d690b07';
-        
-        // Always include mintedmerch token even without USD pricing
-        if (isMintedMerch) {
-          console.log(`🎯 KEEPING MINTEDMERCH TOKEN: ${token.token_name} (${token.token_symbol}) - Balance: ${token.balance}, USD Value: ${token.value_usd}`);
-          // Calculate USD value manually if missing
-          if ((!token.value_usd || token.value_usd === 0) && token.balance) {
-            const balance = parseFloat(token.balance);
-            const pricePerToken = 0.000004235; // From DexScreener
-            token.value_usd = balance * pricePerToken;
-            console.log(`💰 Calculated USD value for mintedmerch: $${token.value_usd.toFixed(2)}`);
-          }
-          return true;
-        }
-        
-        // For tokens from RPC that don't have USD values, try to calculate them
-        if ((!token.value_usd || token.value_usd === 0) && token.balance) {
-          // For now, we'll include tokens without USD values but with balance > 0
-          // Later we can add DexScreener/CoinGecko pricing lookup
-          return parseFloat(token.balance) > 0;
-        }
-        
-        if (!hasValue && (token.token_symbol?.toLowerCase().includes('minted') || 
-                         token.token_name?.toLowerCase().includes('minted'))) {
-          console.log(`❌ OTHER MINTED TOKEN FILTERED OUT - No USD value: ${token.token_name} (${token.token_symbol}) - USD Value: ${token.value_usd}`);
-        }
-        return hasValue;
-      });
-    
-    const filteredTokens = tokensWithValue
-      .filter((token: TokenBalance) => !isLikelyScamToken(token)); // Remove scam tokens
-    
-    console.log(`After scam filtering: ${filteredTokens.length} legitimate tokens remaining for FID ${fid}`);
-    
-    const sortedTokens = filteredTokens
-      .sort((a: TokenBalance, b: TokenBalance) => (b.value_usd || 0) - (a.value_usd || 0))
-      .slice(0, 10); // Top 10 only
-
-    // Calculate total USD value
-    const totalValueUsd = sortedTokens.reduce((sum: number, token: TokenBalance) => sum + (token.value_usd || 0), 0);
-
-    console.log(`Returning ${sortedTokens.length} top tokens for FID ${fid}, total value: $${totalValueUsd.toFixed(2)}`);
+    console.log(`Returning ${pagedTokens.length} of ${sortedTokens.length} tokens (offset ${offset}, sort ${sort}) for FID ${fid}, total value: $${totalValueUsd.toFixed(2)}`, chainTotals);
 
     return {
       fid,
-      tokens: sortedTokens,
-      total_value_usd: totalValueUsd
+      tokens: pagedTokens,
+      total_count: sortedTokens.length,
+      total_value_usd: totalValueUsd,
+      chain_totals: chainTotals,
+      positions,
+      positions_value_usd: positionsValueUsd,
+      token_discovery: hasIndexedTokenDiscovery() ? 'indexed' : 'recent',
+      ...(includeFiltered ? { filtered_tokens: hidden, filter_rules_version: rulesVersion } : {})
     };
 
   } catch (error) {
@@ -950,7 +1067,10 @@ export async function fetchUserTokenBalances(fid: number, bankrAddresses: string
     return {
       fid,
       tokens: [],
+      total_count: 0,
       total_value_usd: 0,
+      positions: [],
+      positions_value_usd: 0,
       error: error instanceof Error ? error.message : 'Failed to fetch token balances'
     };
   }
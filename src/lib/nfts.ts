@@ -0,0 +1,200 @@
+import { fetchUserWalletAddresses } from './neynar';
+import { isValidEthereumAddress } from './validation';
+import { ALCHEMY_NETWORKS, EvmChainKey, EVM_CHAIN_KEYS } from './chains';
+
+// Alchemy returns at most 100 NFTs per page; stop after this many pages per address and chain
+const NFT_PAGE_SIZE = 100;
+const NFT_MAX_PAGES = 3;
+
+export interface NftItem {
+  token_id: string;
+  name: string;
+  image_url?: string;
+  // Number of copies held (always 1 for ERC-721)
+  balance: number;
+  owner: string;
+}
+
+export interface NftCollection {
+  chain: EvmChainKey;
+  contract_address: string;
+  name: string;
+  symbol?: string;
+  token_type: 'ERC721' | 'ERC1155' | 'UNKNOWN';
+  image_url?: string;
+  // Total copies held across every wallet
+  owned_count: number;
+  nfts: NftItem[];
+}
+
+export interface NftHoldingsResult {
+  fid?: number;
+  addresses: string[];
+  collections: NftCollection[];
+  total_count: number;
+  error?: string;
+}
+
+interface AlchemyOwnedNft {
+  contract: {
+    address: string;
+    name?: string;
+    symbol?: string;
+    tokenType?: string;
+    isSpam?: boolean;
+    openSeaMetadata?: {
+      collectionName?: string;
+      imageUrl?: string;
+    };
+  };
+  tokenId: string;
+  tokenType?: string;
+  name?: string;
+  balance?: string;
+  image?: {
+    cachedUrl?: string;
+    thumbnailUrl?: string;
+    originalUrl?: string;
+  };
+}
+
+interface AlchemyNftsForOwnerResponse {
+  ownedNfts: AlchemyOwnedNft[];
+  pageKey?: string;
+  totalCount?: number;
+}
+
+/**
+ * Fetch every NFT an address owns on one chain from the Alchemy NFT API
+ * @param address - The EVM address to look up
+ * @param chain - The EVM chain to query
+ * @param apiKey - Alchemy API key
+ * @returns Promise with the owned NFTs (spam contracts removed)
+ */
+async function fetchNftsForOwner(address: string, chain: EvmChainKey, apiKey: string): Promise<AlchemyOwnedNft[]> {
+  const owned: AlchemyOwnedNft[] = [];
+  let pageKey: string | undefined;
+
+  for (let page = 0; page < NFT_MAX_PAGES; page++) {
+    const params = new URLSearchParams({
+      owner: address,
+      withMetadata: 'true',
+      pageSize: NFT_PAGE_SIZE.toString()
+    });
+    if (pageKey) params.set('pageKey', pageKey);
+
+    const response = await fetch(`https://${ALCHEMY_NETWORKS[chain]}.g.alchemy.com/nft/v3/${apiKey}/getNFTsForOwner?${params.toString()}`, {
+      headers: {
+        'accept': 'application/json'
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Alchemy getNFTsForOwner failed with status: ${response.status}`);
+    }
+
+    const data: AlchemyNftsForOwnerResponse = await response.json();
+    owned.push(...(data.ownedNfts || []).filter(nft => !nft.contract?.isSpam));
+
+    pageKey = data.pageKey;
+    if (!pageKey) break;
+  }
+
+  return owned;
+}
+
+/**
+ * List the ERC-721 and ERC-1155 holdings of a set of EVM addresses, grouped by collection
+ * @param addresses - Wallet addresses to look up (non-EVM addresses are skipped)
+ * @returns Promise with collections sorted by how many items are held
+ */
+export async function fetchNftHoldings(addresses: string[]): Promise<NftHoldingsResult> {
+  const apiKey = process.env.ALCHEMY_API_KEY;
+  const evmAddresses = Array.from(new Set(addresses.filter(isValidEthereumAddress).map(address => address.toLowerCase())));
+
+  if (!apiKey) {
+    console.log('⚠️ ALCHEMY_API_KEY is not set, skipping NFT lookup');
+    return {
+      addresses: evmAddresses,
+      collections: [],
+      total_count: 0,
+      error: 'NFT lookups are not configured'
+    };
+  }
+
+  console.log(`🖼️ Fetching NFTs for ${evmAddresses.length} addresses on ${EVM_CHAIN_KEYS.join(', ')}`);
+
+  const collections = new Map<string, NftCollection>();
+
+  await Promise.all(evmAddresses.flatMap(address => EVM_CHAIN_KEYS.map(async (chain) => {
+    try {
+      const nfts = await fetchNftsForOwner(address, chain, apiKey);
+      console.log(`🖼️ Found ${nfts.length} NFTs for ${address} on ${chain}`);
+
+      for (const nft of nfts) {
+        const contractAddress = nft.contract.address.toLowerCase();
+        const key = `${chain}:${contractAddress}`;
+        const tokenType = (nft.tokenType || nft.contract.tokenType || '').toUpperCase();
+        const balance = parseInt(nft.balance || '1', 10) || 1;
+
+        let collection = collections.get(key);
+        if (!collection) {
+          collection = {
+            chain,
+            contract_address: contractAddress,
+            name: nft.contract.openSeaMetadata?.collectionName || nft.contract.name || 'Unknown Collection',
+            symbol: nft.contract.symbol,
+            token_type: tokenType === 'ERC721' || tokenType === 'ERC1155' ? tokenType : 'UNKNOWN',
+            image_url: nft.contract.openSeaMetadata?.imageUrl,
+            owned_count: 0,
+            nfts: []
+          };
+          collections.set(key, collection);
+        }
+
+        collection.owned_count += balance;
+        collection.nfts.push({
+          token_id: nft.tokenId,
+          name: nft.name || `${collection.name} #${nft.tokenId}`,
+          image_url: nft.image?.thumbnailUrl || nft.image?.cachedUrl || nft.image?.originalUrl,
+          balance,
+          owner: address
+        });
+      }
+    } catch (error) {
+      console.error(`❌ Error fetching NFTs for ${address} on ${chain}:`, error);
+    }
+  })));
+
+  const sortedCollections = Array.from(collections.values())
+    .sort((a, b) => b.owned_count - a.owned_count || a.name.localeCompare(b.name));
+
+  return {
+    addresses: evmAddresses,
+    collections: sortedCollections,
+    total_count: sortedCollections.reduce((sum, collection) => sum + collection.owned_count, 0)
+  };
+}
+
+/**
+ * List the NFT holdings across a user's verified and Bankr addresses
+ * @param fid - Farcaster ID of the user
+ * @param bankrAddresses - Optional Bankr wallet addresses to include
+ * @returns Promise with NFT holdings grouped by collection
+ */
+export async function fetchUserNftHoldings(fid: number, bankrAddresses: string[] = []): Promise<NftHoldingsResult> {
+  try {
+    const { ethAddresses } = await fetchUserWalletAddresses(fid);
+    const result = await fetchNftHoldings([...ethAddresses, ...bankrAddresses]);
+    return { fid, ...result };
+  } catch (error) {
+    console.error(`Error fetching NFT holdings for FID ${fid}:`, error);
+    return {
+      fid,
+      addresses: [],
+      collections: [],
+      total_count: 0,
+      error: error instanceof Error ? error.message : 'Failed to fetch NFT holdings'
+    };
+  }
+}
@@ -0,0 +1,259 @@
+import type { TokenBalance } from './neynar';
+import { CHAINS } from './chains';
+
+export interface PriceQuote {
+  price_usd: number;
+  source: string;
+  symbol?: string;
+  name?: string;
+}
+
+/**
+ * A source of USD prices for token contracts on a given chain
+ * Providers only need to return prices they know; missing tokens fall through
+ * to the next provider in the chain
+ */
+export interface PriceProvider {
+  name: string;
+  getPrices(chain: string, tokenAddresses: string[]): Promise<Map<string, PriceQuote>>;
+}
+
+interface DexScreenerPair {
+  chainId: string;
+  priceUsd?: string;
+  liquidity?: { usd?: number };
+  baseToken: { address: string; symbol: string; name: string };
+}
+
+// DexScreener accepts up to 30 token addresses per request
+const DEXSCREENER_BATCH_SIZE = 30;
+
+// Pairs with less liquidity than this are ignored when weighting prices
+const MIN_LIQUIDITY_USD = Number(process.env.PRICE_MIN_LIQUIDITY_USD || '1000');
+
+// How long a resolved (or missing) price is reused before asking the providers again
+const PRICE_CACHE_TTL_MS = Number(process.env.PRICE_CACHE_TTL_MS || String(5 * 60 * 1000));
+
+/**
+ * Fallback prices keyed by `${chain}:${lowercase token address}`
+ * Extend or override with a STATIC_TOKEN_PRICES JSON object using the same keys
+ */
+const DEFAULT_STATIC_PRICES: { [key: string]: number } = {
+  'base:0x833589fcd6edb6e08f4c7c32d4f71b54bda02913': 1, // USDC
+  'base:0xd9aaec86b65d86f6a7b5b1b0c42ffa531710b6ca': 1, // USDbC
+  'base:0xfde4c96c8593536e31f229ea8f37b2ada2699bb2': 1, // USDT
+  'base:0x50c5725949a6f0c72e6c4a641f24049a917db0cb': 1, // DAI
+  'base:0x774eaefe73df7959496ac92a77279a8d7d690b07': 0.000004235, // mintedmerch
+  'ethereum:0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48': 1, // USDC
+  'ethereum:0xdac17f958d2ee523a2206206994597c13d831ec7': 1, // USDT
+  'ethereum:0x6b175474e89094c44da98b954eedeac495271d0f': 1, // DAI
+  'optimism:0x0b2c639c533813f4aa9d7837caf62653d097ff85': 1, // USDC
+  'optimism:0x94b008aa00579c1307b0ef2c499ad98a8ce58e58': 1, // USDT
+  'optimism:0xda10009cbd5d07dd0cecc66161fc93d7c9000da1': 1, // DAI
+  'arbitrum:0xaf88d065e77c8cc2239327c5edb3a432268e5831': 1, // USDC
+  'arbitrum:0xfd086bc7cd5c481dcc9c85ebe478a1c0b69fcbb9': 1, // USDT
+  'arbitrum:0xda10009cbd5d07dd0cecc66161fc93d7c9000da1': 1, // DAI
+  'solana:epjfwdd5aufqssqem2qn1xzybapc8g4wegggkzwytdt1v': 1, // USDC
+  'solana:es9vmfrzacermjfrf4h2fyd4kcoonky11mcce8benwnyb': 1, // USDT
+};
+
+const priceCache = new Map<string, { quote: PriceQuote | null; expiresAt: number }>();
+
+function priceKey(chain: string, tokenAddress: string): string {
+  return `${chain}:${tokenAddress.toLowerCase()}`;
+}
+
+/**
+ * DexScreener provider: averages the USD price of every pair where the token is
+ * the base token, weighted by each pair's USD liquidity
+ */
+export const dexScreenerPriceProvider: PriceProvider = {
+  name: 'dexscreener',
+  async getPrices(chain, tokenAddresses) {
+    const prices = new Map<string, PriceQuote>();
+
+    for (let i = 0; i < tokenAddresses.length; i += DEXSCREENER_BATCH_SIZE) {
+      const batch = tokenAddresses.slice(i, i + DEXSCREENER_BATCH_SIZE);
+
+      try {
+        const response = await fetch(`https://api.dexscreener.com/tokens/v1/${chain}/${batch.join(',')}`);
+        if (!response.ok) {
+          console.log(`⚠️ DexScreener price lookup failed with status: ${response.status}`);
+          continue;
+        }
+
+        const pairs: DexScreenerPair[] = await response.json();
+        if (!Array.isArray(pairs)) {
+          continue;
+        }
+
+        for (const tokenAddress of batch) {
+          let weightedPrice = 0;
+          let totalLiquidity = 0;
+          let baseToken: DexScreenerPair['baseToken'] | undefined;
+
+          for (const pair of pairs) {
+            if (pair.chainId !== chain || pair.baseToken?.address?.toLowerCase() !== tokenAddress.toLowerCase()) {
+              continue;
+            }
+
+            const price = parseFloat(pair.priceUsd || '');
+            const liquidity = pair.liquidity?.usd || 0;
+            if (!isFinite(price) || price <= 0 || liquidity < MIN_LIQUIDITY_USD) {
+              continue;
+            }
+
+            weightedPrice += price * liquidity;
+            totalLiquidity += liquidity;
+            baseToken = baseToken || pair.baseToken;
+          }
+
+          if (totalLiquidity > 0) {
+            prices.set(tokenAddress.toLowerCase(), {
+              price_usd: weightedPrice / totalLiquidity,
+              source: 'dexscreener',
+              symbol: baseToken?.symbol,
+              name: baseToken?.name
+            });
+          }
+        }
+      } catch (error) {
+        console.log(`⚠️ DexScreener price lookup threw error:`, error);
+      }
+    }
+
+    return prices;
+  }
+};
+
+/**
+ * Static provider: looks tokens up in DEFAULT_STATIC_PRICES merged with STATIC_TOKEN_PRICES
+ */
+export const staticPriceProvider: PriceProvider = {
+  name: 'static',
+  async getPrices(chain, tokenAddresses) {
+    let configuredPrices: { [key: string]: number } = {};
+    try {
+      configuredPrices = JSON.parse(process.env.STATIC_TOKEN_PRICES || '{}');
+    } catch (error) {
+      console.error('❌ STATIC_TOKEN_PRICES is not valid JSON:', error);
+    }
+
+    const table: { [key: string]: number } = { ...DEFAULT_STATIC_PRICES };
+    for (const [key, price] of Object.entries(configuredPrices)) {
+      table[key.toLowerCase()] = Number(price);
+    }
+
+    const prices = new Map<string, PriceQuote>();
+    for (const tokenAddress of tokenAddresses) {
+      const price = table[priceKey(chain, tokenAddress)];
+      if (price && isFinite(price)) {
+        prices.set(tokenAddress.toLowerCase(), { price_usd: price, source: 'static' });
+      }
+    }
+    return prices;
+  }
+};
+
+// Providers are consulted in order; later providers only see tokens earlier ones could not price
+const priceProviders: PriceProvider[] = [dexScreenerPriceProvider, staticPriceProvider];
+
+/**
+ * Get USD prices for token contracts, using the TTL cache before the provider chain
+ * Addresses are passed to providers in their original case (Solana mints are
+ * case-sensitive) but the returned map is keyed by lowercase address
+ * @param chain - DexScreener chain id (e.g. 'base', 'solana')
+ * @param tokenAddresses - Token contract addresses to price
+ * @returns Promise with a map of lowercase contract address to price quote
+ */
+export async function getTokenPrices(chain: string, tokenAddresses: string[]): Promise<Map<string, PriceQuote>> {
+  const now = Date.now();
+  const prices = new Map<string, PriceQuote>();
+  let remaining: string[] = [];
+
+  for (const tokenAddress of tokenAddresses) {
+    const key = tokenAddress.toLowerCase();
+    if (prices.has(key) || remaining.some(addr => addr.toLowerCase() === key)) {
+      continue;
+    }
+
+    const cached = priceCache.get(priceKey(chain, tokenAddress));
+    if (cached && cached.expiresAt > now) {
+      if (cached.quote) prices.set(key, cached.quote);
+    } else {
+      remaining.push(tokenAddress);
+    }
+  }
+
+  for (const provider of priceProviders) {
+    if (remaining.length === 0) break;
+
+    const providerPrices = await provider.getPrices(chain, remaining);
+    console.log(`💲 ${provider.name} priced ${providerPrices.size}/${remaining.length} tokens on ${chain}`);
+
+    for (const [tokenAddress, quote] of providerPrices) {
+      prices.set(tokenAddress, quote);
+      priceCache.set(priceKey(chain, tokenAddress), { quote, expiresAt: now + PRICE_CACHE_TTL_MS });
+    }
+    remaining = remaining.filter(tokenAddress => !providerPrices.has(tokenAddress.toLowerCase()));
+  }
+
+  // Remember misses too, so unpriceable tokens don't hit the providers on every request
+  for (const tokenAddress of remaining) {
+    priceCache.set(priceKey(chain, tokenAddress), { quote: null, expiresAt: now + PRICE_CACHE_TTL_MS });
+  }
+
+  return prices;
+}
+
+/**
+ * Native balances have no contract, so they are priced via the chain's wrapped native token
+ */
+function priceLookupAddress(token: TokenBalance): string {
+  return token.token_address === 'native' ? CHAINS[token.chain].nativeToken.wrappedAddress : token.token_address;
+}
+
+/**
+ * Fill in price_usd and value_usd for tokens that don't already have a USD value
+ * Tokens priced upstream (e.g. by Neynar) keep their value and get a derived price_usd,
+ * tokens with unknown metadata pick up the provider's symbol and name, and each
+ * wallet entry is valued at the same price
+ * @param tokens - Token balances to price (mutated in place), looked up per chain
+ * @returns Promise with the same token array
+ */
+export async function applyTokenPrices(tokens: TokenBalance[]): Promise<TokenBalance[]> {
+  const unpriced = tokens.filter(token => !token.value_usd && parseFloat(token.balance) > 0);
+
+  const pricesByChain = new Map<string, Map<string, PriceQuote>>();
+  for (const chain of new Set(unpriced.map(token => token.chain))) {
+    const chainTokens = unpriced.filter(token => token.chain === chain);
+    pricesByChain.set(chain, await getTokenPrices(CHAINS[chain].dexScreenerId, chainTokens.map(priceLookupAddress)));
+  }
+
+  for (const token of tokens) {
+    const balance = parseFloat(token.balance) || 0;
+
+    if (token.value_usd) {
+      if (token.price_usd === undefined && balance > 0) {
+        token.price_usd = token.value_usd / balance;
+      }
+      continue;
+    }
+
+    const quote = pricesByChain.get(token.chain)?.get(priceLookupAddress(token).toLowerCase());
+    if (quote) {
+      if (token.token_symbol === 'UNKNOWN' && quote.symbol) {
+        token.token_symbol = quote.symbol;
+        token.token_name = quote.name || quote.symbol;
+      }
+      token.price_usd = quote.price_usd;
+      token.value_usd = balance * quote.price_usd;
+      for (const wallet of token.wallets) {
+        wallet.value_usd = (parseFloat(wallet.balance) || 0) * quote.price_usd;
+      }
+      console.log(`💰 Priced ${token.token_symbol} via ${quote.source}: $${quote.price_usd} x ${balance} = $${token.value_usd.toFixed(2)}`);
+    }
+  }
+
+  return tokens;
+}
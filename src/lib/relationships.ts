@@ -0,0 +1,161 @@
+/**
+ * Client-safe analysis of how searched profiles are connected through their wallets
+ * Used to surface sybil clusters in multi-input searches
+ */
+import type { FarcasterUser } from './neynar';
+import { isValidEthereumAddress } from './validation';
+
+export type AddressRole =
+  | 'custody'
+  | 'verified_eth'
+  | 'verified_sol'
+  | 'farcaster_bankr_evm'
+  | 'farcaster_bankr_sol'
+  | 'x_bankr_evm'
+  | 'x_bankr_sol';
+
+export const ADDRESS_ROLE_LABELS: Record<AddressRole, string> = {
+  custody: 'Custody',
+  verified_eth: 'Verified ETH',
+  verified_sol: 'Verified SOL',
+  farcaster_bankr_evm: 'Farcaster Bankr (EVM)',
+  farcaster_bankr_sol: 'Farcaster Bankr (SOL)',
+  x_bankr_evm: 'X Bankr (EVM)',
+  x_bankr_sol: 'X Bankr (SOL)',
+};
+
+export interface AddressOwner {
+  fid: number;
+  username: string;
+  role: AddressRole;
+}
+
+export interface SharedAddress {
+  address: string;
+  // Every user/role pair the address appears under (two or more distinct FIDs)
+  owners: AddressOwner[];
+}
+
+export interface UserLink {
+  source_fid: number;
+  target_fid: number;
+  shared: Array<{
+    address: string;
+    source_role: AddressRole;
+    target_role: AddressRole;
+  }>;
+}
+
+export interface RelationshipGraph {
+  shared_addresses: SharedAddress[];
+  links: UserLink[];
+  // Groups of FIDs connected directly or through other users, largest first
+  clusters: number[][];
+}
+
+/**
+ * List every wallet address attached to a user, tagged with how it is attached
+ * @param user - Farcaster user, optionally enhanced with Bankr data
+ * @returns Address and role pairs
+ */
+export function getUserAddresses(user: FarcasterUser): Array<{ address: string; role: AddressRole }> {
+  const entries: Array<{ address: string; role: AddressRole }> = [];
+  const add = (address: string | null | undefined, role: AddressRole) => {
+    if (address) entries.push({ address, role });
+  };
+
+  add(user.custody_address, 'custody');
+  (user.verified_addresses?.eth_addresses || []).forEach(address => add(address, 'verified_eth'));
+  (user.verified_addresses?.sol_addresses || []).forEach(address => add(address, 'verified_sol'));
+  add(user.bankrData?.farcaster?.evmAddress, 'farcaster_bankr_evm');
+  add(user.bankrData?.farcaster?.solanaAddress, 'farcaster_bankr_sol');
+  add(user.bankrData?.twitter?.evmAddress, 'x_bankr_evm');
+  add(user.bankrData?.twitter?.solanaAddress, 'x_bankr_sol');
+
+  return entries;
+}
+
+// EVM addresses compare case-insensitively; Solana addresses are case-sensitive
+function addressKey(address: string): string {
+  return isValidEthereumAddress(address) ? address.toLowerCase() : address;
+}
+
+/**
+ * Group FIDs into connected components, directly or through other FIDs
+ * @param pairs - Pairs of linked FIDs
+ * @returns Groups of FIDs sorted ascending, largest group first
+ */
+export function groupLinkedFids(pairs: Array<[number, number]>): number[][] {
+  // Union-find over the pairs
+  const parent = new Map<number, number>();
+  const find = (fid: number): number => {
+    const next = parent.get(fid) ?? fid;
+    if (next === fid) return fid;
+    const root = find(next);
+    parent.set(fid, root);
+    return root;
+  };
+  for (const [a, b] of pairs) {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent.set(rootA, rootB);
+  }
+
+  const groups = new Map<number, number[]>();
+  for (const fid of new Set(pairs.flat())) {
+    const root = find(fid);
+    groups.set(root, [...(groups.get(root) || []), fid]);
+  }
+
+  return Array.from(groups.values())
+    .map(group => group.sort((a, b) => a - b))
+    .sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Detect addresses shared between users, e.g. the same custody or verified address
+ * on two FIDs, or one user's Bankr wallet verified by another user
+ * @param users - Users returned by a search
+ * @returns Shared addresses, pairwise links and connected clusters
+ */
+export function analyzeRelationships(users: FarcasterUser[]): RelationshipGraph {
+  const owners = new Map<string, { address: string; owners: AddressOwner[] }>();
+
+  for (const user of users) {
+    for (const { address, role } of getUserAddresses(user)) {
+      const key = addressKey(address);
+      const entry = owners.get(key) || { address, owners: [] };
+      entry.owners.push({ fid: user.fid, username: user.username, role });
+      owners.set(key, entry);
+    }
+  }
+
+  const sharedAddresses = Array.from(owners.values())
+    .filter(entry => new Set(entry.owners.map(owner => owner.fid)).size > 1);
+
+  // One link per pair of users, listing every address they share
+  const links = new Map<string, UserLink>();
+  for (const { address, owners: addressOwners } of sharedAddresses) {
+    for (let i = 0; i < addressOwners.length; i++) {
+      for (let j = i + 1; j < addressOwners.length; j++) {
+        const [source, target] = addressOwners[i].fid < addressOwners[j].fid
+          ? [addressOwners[i], addressOwners[j]]
+          : [addressOwners[j], addressOwners[i]];
+        if (source.fid === target.fid) continue;
+
+        const key = `${source.fid}:${target.fid}`;
+        const link = links.get(key) || { source_fid: source.fid, target_fid: target.fid, shared: [] };
+        link.shared.push({ address, source_role: source.role, target_role: target.role });
+        links.set(key, link);
+      }
+    }
+  }
+
+  return {
+    shared_addresses: sharedAddresses,
+    links: Array.from(links.values()),
+    clusters: groupLinkedFids(
+      Array.from(links.values()).map((link): [number, number] => [link.source_fid, link.target_fid])
+    )
+  };
+}
@@ -0,0 +1,30 @@
+import { createPublicClient, fallback, http, PublicClient } from 'viem';
+import { CHAINS, EvmChainKey } from './chains';
+
+// One client per chain, created lazily and reused across requests
+const clients = new Map<EvmChainKey, PublicClient>();
+
+/**
+ * Get the shared viem client for an EVM chain (balances, logs, multicall)
+ * Falls back across the chain's RPC endpoints and batches eth_calls through Multicall3
+ * @param chain - The EVM chain to read from
+ * @returns The chain's public client
+ */
+export function getChainClient(chain: EvmChainKey): PublicClient {
+  const existing = clients.get(chain);
+  if (existing) {
+    return existing;
+  }
+
+  const chainInfo = CHAINS[chain];
+  const client = createPublicClient({
+    chain: chainInfo.viemChain,
+    transport: fallback(chainInfo.rpcUrls.map(url => http(url))),
+    batch: {
+      multicall: true,
+    },
+  }) as PublicClient;
+
+  clients.set(chain, client);
+  return client;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { formatSearchEvent, readSearchEvents, SearchEvent } from './search-events';
+
+/**
+ * Build a streamed response that sends the given chunks and then closes
+ */
+function streamOf(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  return new Response(new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    }
+  }));
+}
+
+describe('readSearchEvents', () => {
+  const notFound: SearchEvent = { type: 'not_found', inputs: ['nobody'] };
+  const done: SearchEvent = { type: 'done', searchedInputs: ['nobody'] };
+
+  it('reports a search that sent its done event as complete', async () => {
+    const events: SearchEvent[] = [];
+    const completed = await readSearchEvents(streamOf([formatSearchEvent(notFound), formatSearchEvent(done)]), event => events.push(event));
+
+    expect(completed).toBe(true);
+    expect(events).toEqual([notFound, done]);
+  });
+
+  it('reports a stream that closed before done as interrupted', async () => {
+    const events: SearchEvent[] = [];
+    const completed = await readSearchEvents(streamOf([formatSearchEvent(notFound)]), event => events.push(event));
+
+    expect(completed).toBe(false);
+    expect(events).toEqual([notFound]);
+  });
+
+  it('does not count a done event cut off mid-message', async () => {
+    const message = formatSearchEvent(done);
+    const completed = await readSearchEvents(streamOf([message.slice(0, 20)]), () => {});
+
+    expect(completed).toBe(false);
+  });
+
+  it('joins events split across chunks', async () => {
+    const message = formatSearchEvent(done);
+    const completed = await readSearchEvents(streamOf([message.slice(0, 10), message.slice(10)]), () => {});
+
+    expect(completed).toBe(true);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Client-safe event types and Server-Sent Events encoding for streamed searches
+ * (/api/search/stream)
+ */
+import type { FarcasterUser, SearchMatch } from './neynar';
+import type { AddressNames } from './ens';
+
+export interface SearchProgress {
+  inputs_total: number;
+  // Inputs whose lookup has completed (found, not found or failed)
+  inputs_done: number;
+  // Unique users found so far, and how many have their Bankr data attached
+  users_total: number;
+  users_enriched: number;
+}
+
+export type SearchEvent =
+  | { type: 'user'; user: FarcasterUser }
+  | { type: 'bankr'; fid: number; bankrData: FarcasterUser['bankrData'] }
+  | { type: 'matches'; matches: SearchMatch[] }
+  | { type: 'not_found'; inputs: string[] }
+  | { type: 'failed'; inputs: string[] }
+  | { type: 'progress'; progress: SearchProgress }
+  | { type: 'names'; names: Record<string, AddressNames> }
+  | { type: 'done'; searchedInputs: string[] }
+  | { type: 'error'; error: string; details?: string };
+
+/**
+ * Encode a search event as an SSE message
+ * @param event - The event to send
+ * @returns SSE message text, named after the event type
+ */
+export function formatSearchEvent(event: SearchEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Read a streamed search response, calling onEvent for every event as it arrives
+ * @param response - Response from /api/search/stream
+ * @param onEvent - Called with each parsed event, in order
+ * @returns Promise that resolves when the stream ends: true if it sent a done event,
+ * false if the connection closed before the search finished
+ */
+export async function readSearchEvents(response: Response, onEvent: (event: SearchEvent) => void): Promise<boolean> {
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let completed = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return completed;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Messages are separated by a blank line; keep any partial message for the next chunk
+    const messages = buffer.split('\n\n');
+    buffer = messages.pop() || '';
+
+    for (const message of messages) {
+      const data = message
+        .split('\n')
+        .filter(line => line.startsWith('data: '))
+        .map(line => line.slice('data: '.length))
+        .join('\n');
+      if (data) {
+        const event = JSON.parse(data) as SearchEvent;
+        completed = completed || event.type === 'done';
+        onEvent(event);
+      }
+    }
+  }
+}
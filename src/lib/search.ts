@@ -0,0 +1,476 @@
+import {
+  searchUsersByAddresses,
+  searchUsersByUsernames,
+  searchUsersByFIDs,
+  searchUsersByXUsernames,
+  FarcasterUser,
+  SearchMatch,
+  SearchResult
+} from './neynar';
+import { validateAddressOrUsername, isValidEthereumAddress, SearchInputType } from './validation';
+import { getBankrWalletData } from './bankr';
+import { resolveBasename, resolveEnsName, reverseResolveAddresses } from './ens';
+import { getUserAddresses } from './relationships';
+import type { SearchEvent } from './search-events';
+
+export interface InvalidSearchInput {
+  input: string;
+  error?: string;
+}
+
+/**
+ * Find the inputs that are not a wallet address, username or FID
+ * @param inputs - Raw search inputs
+ * @returns The invalid inputs with their validation errors
+ */
+export function findInvalidSearchInputs(inputs: string[]): InvalidSearchInput[] {
+  return inputs
+    .map(input => ({ input, ...validateAddressOrUsername(input) }))
+    .filter(result => !result.isValid)
+    .map(result => ({ input: result.input, error: result.error }));
+}
+
+/**
+ * Attach Farcaster and X Bankr wallet data to a user
+ * @param user - Farcaster user from Neynar
+ * @returns Promise with the user enhanced with bankrData
+ */
+async function enhanceWithBankrData(user: FarcasterUser): Promise<FarcasterUser> {
+  // Skip users without valid username
+  if (!user.username) {
+    console.log('Skipping user without username:', user);
+    return user;
+  }
+
+  // Check if user has a connected Twitter account
+  const twitterAccount = user.verified_accounts?.find((account) =>
+    account.platform === 'twitter' || account.platform === 'x'
+  );
+
+  // Get Bankr wallet data for both Farcaster and Twitter if available
+  console.log(`Fetching Bankr data for Farcaster username: ${user.username}`);
+  const [farcasterBankrData, twitterBankrData] = await Promise.all([
+    getBankrWalletData(user.username, 'farcaster'),
+    twitterAccount?.username ? getBankrWalletData(twitterAccount.username, 'twitter') : Promise.resolve(null)
+  ]);
+
+  // Log results
+  if (farcasterBankrData) {
+    console.log(`Found Farcaster Bankr data for ${user.username}:`, farcasterBankrData);
+  } else {
+    console.log(`No Farcaster Bankr data found for ${user.username}`);
+  }
+
+  if (twitterBankrData) {
+    console.log(`Found Twitter Bankr data for ${twitterAccount?.username}:`, twitterBankrData);
+  } else if (twitterAccount?.username) {
+    console.log(`No Twitter Bankr data found for ${twitterAccount.username}`);
+  }
+
+  return {
+    ...user,
+    bankrData: {
+      farcaster: farcasterBankrData,
+      twitter: twitterBankrData
+    }
+  };
+}
+
+/**
+ * Work out how an input resolved, from the results of the search it was part of
+ * @param input - The search input
+ * @param type - The input's detected type
+ * @param result - Results of the search type the input was sent to
+ * @returns The resolution path and matched FIDs
+ */
+function resolveMatch(input: string, type: SearchInputType, result: SearchResult): SearchMatch {
+  if (result.failedInputs?.includes(input)) {
+    return { input, type, path: 'failed', fids: [] };
+  }
+  if (result.notFoundInputs.includes(input)) {
+    return { input, type, path: 'not_found', fids: [] };
+  }
+
+  const normalized = input.toLowerCase();
+  const fidsOf = (users: FarcasterUser[]) => Array.from(new Set(users.map(user => user.fid)));
+
+  if (type === 'ethereum' || type === 'solana') {
+    // EVM addresses compare case-insensitively; Solana addresses are case-sensitive
+    const sameAddress = (address: string | null | undefined) =>
+      !!address && (type === 'ethereum' ? address.toLowerCase() === normalized : address === input);
+    const verifiedUsers = result.users.filter(user =>
+      [...(user.verified_addresses?.eth_addresses || []), ...(user.verified_addresses?.sol_addresses || [])].some(sameAddress)
+    );
+    const custodyUsers = result.users.filter(user => sameAddress(user.custody_address));
+
+    return verifiedUsers.length > 0
+      ? { input, type, path: 'verified_address', fids: fidsOf([...verifiedUsers, ...custodyUsers]) }
+      : { input, type, path: 'custody_address', fids: fidsOf(custodyUsers) };
+  }
+
+  if (type === 'fid') {
+    return { input, type, path: 'fid', fids: fidsOf(result.users.filter(user => user.fid.toString() === input)) };
+  }
+
+  const farcasterUsers = result.users.filter(user => user.username?.toLowerCase() === normalized);
+  const xUsers = result.users.filter(user => user.verified_accounts?.some(account =>
+    (account.platform === 'twitter' || account.platform === 'x') && account.username?.toLowerCase() === normalized
+  ));
+
+  // Ambiguous usernames are tried as Farcaster usernames first, then X usernames
+  if (type === 'x_username' || (type === 'username' && farcasterUsers.length === 0)) {
+    return { input, type, path: 'x_username', fids: fidsOf(xUsers) };
+  }
+  return { input, type, path: 'farcaster_username', fids: fidsOf(farcasterUsers) };
+}
+
+/**
+ * Search ENS names and Basenames by resolving them on-chain and looking up the
+ * resolved addresses. ENS names that don't resolve to a Farcaster user fall back to
+ * a Farcaster username lookup, since fnames can also end in .eth
+ * @param names - ENS names and Basenames with their detected type
+ * @returns Promise with search results, including the resolved address in each match
+ */
+async function searchUsersByNames(names: Array<{ input: string; type: 'ens' | 'basename' }>): Promise<SearchResult> {
+  console.log(`Resolving ${names.length} ENS names / Basenames`);
+
+  const resolved = await Promise.all(names.map(async name => ({
+    ...name,
+    address: name.type === 'basename' ? await resolveBasename(name.input) : await resolveEnsName(name.input)
+  })));
+
+  const addresses = Array.from(new Set(
+    resolved.map(name => name.address).filter((address): address is string => !!address)
+  ));
+  const addressResults: SearchResult = addresses.length > 0
+    ? await searchUsersByAddresses(addresses)
+    : { users: [], searchedInputs: [], notFoundInputs: [] };
+
+  const matches: SearchMatch[] = [];
+  const fallbackNames: string[] = [];
+
+  for (const name of resolved) {
+    const addressMatch = name.address ? resolveMatch(name.address, 'ethereum', addressResults) : null;
+
+    if (addressMatch && addressMatch.fids.length > 0) {
+      matches.push({ input: name.input, type: name.type, path: name.type, fids: addressMatch.fids, resolved_address: name.address! });
+    } else if (name.type === 'ens') {
+      fallbackNames.push(name.input);
+    } else {
+      matches.push({
+        input: name.input,
+        type: name.type,
+        path: addressMatch?.path === 'failed' ? 'failed' : 'not_found',
+        fids: [],
+        ...(name.address ? { resolved_address: name.address } : {})
+      });
+    }
+  }
+
+  const users = addressResults.users.filter(user => matches.some(match => match.fids.includes(user.fid)));
+
+  if (fallbackNames.length > 0) {
+    console.log('Trying unresolved ENS names as Farcaster usernames:', fallbackNames.length);
+    const usernameResults = await searchUsersByUsernames(fallbackNames);
+    const fallbackResult: SearchResult = {
+      users: usernameResults.users,
+      searchedInputs: usernameResults.searchedUsernames,
+      notFoundInputs: usernameResults.notFoundUsernames,
+      failedInputs: usernameResults.failedUsernames
+    };
+
+    users.push(...usernameResults.users);
+    for (const input of fallbackNames) {
+      const address = resolved.find(name => name.input === input)?.address;
+      matches.push({
+        ...resolveMatch(input, 'ens', fallbackResult),
+        ...(address ? { resolved_address: address } : {})
+      });
+    }
+  }
+
+  return {
+    users,
+    searchedInputs: names.map(name => name.input),
+    notFoundInputs: matches.filter(match => match.path === 'not_found').map(match => match.input),
+    failedInputs: matches.filter(match => match.path === 'failed').map(match => match.input),
+    matches
+  };
+}
+
+/**
+ * Search usernames as both Farcaster and X usernames, returning a match for each platform
+ * the username was found on, so the two people behind the same handle can be told apart
+ * @param usernames - Usernames from a both: prefix
+ * @returns Promise with the combined search results
+ */
+async function searchBothUsernames(usernames: string[]): Promise<SearchResult> {
+  console.log('Searching usernames on both Farcaster and X:', usernames.length);
+
+  const [farcasterResults, xResults] = await Promise.all([
+    searchUsersByUsernames(usernames),
+    searchUsersByXUsernames(usernames)
+  ]);
+  const farcasterResult: SearchResult = {
+    users: farcasterResults.users,
+    searchedInputs: farcasterResults.searchedUsernames,
+    notFoundInputs: farcasterResults.notFoundUsernames,
+    failedInputs: farcasterResults.failedUsernames
+  };
+  const xResult: SearchResult = {
+    users: xResults.users,
+    searchedInputs: xResults.searchedXUsernames,
+    notFoundInputs: xResults.notFoundXUsernames,
+    failedInputs: xResults.failedXUsernames
+  };
+
+  const matches = usernames.flatMap((input): SearchMatch[] => {
+    const platformMatches = [
+      resolveMatch(input, 'farcaster', farcasterResult),
+      resolveMatch(input, 'x_username', xResult)
+    ];
+    const found = platformMatches.filter(match => match.fids.length > 0);
+    if (found.length > 0) {
+      return found.map(match => ({ ...match, type: 'username_both' }));
+    }
+
+    // Only failed if a lookup failed and nothing was found on the other platform
+    const failed = platformMatches.some(match => match.path === 'failed');
+    return [{ input, type: 'username_both', path: failed ? 'failed' : 'not_found', fids: [] }];
+  });
+
+  return {
+    users: [...farcasterResults.users, ...xResults.users],
+    searchedInputs: usernames,
+    notFoundInputs: matches.filter(match => match.path === 'not_found').map(match => match.input),
+    failedInputs: matches.filter(match => match.path === 'failed').map(match => match.input),
+    matches
+  };
+}
+
+/**
+ * Search usernames that could be Farcaster or X usernames: Farcaster first, then X
+ * for any not found
+ * @param usernames - Ambiguous usernames
+ * @returns Promise with the combined search results
+ */
+async function searchAmbiguousUsernames(usernames: string[]): Promise<SearchResult> {
+  console.log('Searching ambiguous usernames:', usernames.length);
+
+  // First try as Farcaster usernames
+  const farcasterResults = await searchUsersByUsernames(usernames);
+
+  // For usernames not found as Farcaster usernames, try as X usernames
+  const notFoundAsFarcaster = farcasterResults.notFoundUsernames;
+  if (notFoundAsFarcaster.length === 0) {
+    return {
+      users: farcasterResults.users,
+      searchedInputs: farcasterResults.searchedUsernames,
+      notFoundInputs: [],
+      failedInputs: farcasterResults.failedUsernames
+    };
+  }
+
+  console.log('Trying not-found usernames as X usernames:', notFoundAsFarcaster.length);
+  const xResults = await searchUsersByXUsernames(notFoundAsFarcaster);
+
+  return {
+    users: [...farcasterResults.users, ...xResults.users],
+    searchedInputs: [...farcasterResults.searchedUsernames, ...xResults.searchedXUsernames],
+    // Only mark as not found if not found in both searches
+    notFoundInputs: xResults.notFoundXUsernames,
+    failedInputs: [...farcasterResults.failedUsernames, ...xResults.failedXUsernames]
+  };
+}
+
+/**
+ * Search Farcaster users by a mix of wallet addresses, usernames, FIDs and X usernames
+ * Inputs are expected to have passed findInvalidSearchInputs already. Lookups are batched
+ * and rate limited per upstream; inputs whose lookup failed are returned in failedInputs
+ * so the rest of the results are still usable
+ * @param inputs - Validated search inputs; links and @handles are searched, and reported in the
+ *   results, by the identifier they contain
+ * @param onEvent - Optional listener for streaming: called as users are found, enriched
+ *   with Bankr data, or inputs resolve as not found / failed
+ * @returns Promise with unique users (enhanced with Bankr data), searched, not-found and failed inputs
+ */
+export async function searchUsers(inputs: string[], onEvent?: (event: SearchEvent) => void): Promise<SearchResult> {
+  // Validate and categorize each input. Links and @handles are looked up by the identifier
+  // they contain (result.value), once per identifier
+  const validationResults = Array.from(new Map(inputs.map(input => {
+    const result = validateAddressOrUsername(input);
+    return [`${result.type}:${result.value}`, result] as const;
+  })).values());
+
+  // Separate inputs by type
+  const addresses = validationResults
+    .filter(result => result.type === 'ethereum' || result.type === 'solana')
+    .map(result => result.value);
+
+  const usernames = validationResults
+    .filter(result => result.type === 'farcaster')
+    .map(result => result.value);
+
+  const fids = validationResults
+    .filter(result => result.type === 'fid')
+    .map(result => result.value);
+
+  const xUsernames = validationResults
+    .filter(result => result.type === 'x_username')
+    .map(result => result.value);
+
+  const ambiguousUsernames = validationResults
+    .filter(result => result.type === 'username')
+    .map(result => result.value);
+
+  const bothUsernames = validationResults
+    .filter(result => result.type === 'username_both')
+    .map(result => result.value);
+
+  const names = validationResults
+    .filter(result => result.type === 'ens' || result.type === 'basename')
+    .map(result => ({ input: result.value, type: result.type as 'ens' | 'basename' }));
+
+  // Each search type, normalized to a SearchResult. The same value can go to more than one
+  // search (e.g. fc:dwr and x:dwr), so each search knows the type its inputs were sent as
+  const categorySearches: Array<{ inputs: string[]; typeOf: (input: string) => SearchInputType; run: () => Promise<SearchResult> }> = [
+    {
+      inputs: addresses,
+      typeOf: input => (isValidEthereumAddress(input) ? 'ethereum' : 'solana'),
+      run: () => searchUsersByAddresses(addresses)
+    },
+    {
+      inputs: usernames,
+      typeOf: () => 'farcaster',
+      run: async () => {
+        const results = await searchUsersByUsernames(usernames);
+        return {
+          users: results.users,
+          searchedInputs: results.searchedUsernames,
+          notFoundInputs: results.notFoundUsernames,
+          failedInputs: results.failedUsernames
+        };
+      }
+    },
+    {
+      inputs: fids,
+      typeOf: () => 'fid',
+      run: async () => {
+        const results = await searchUsersByFIDs(fids);
+        return {
+          users: results.users,
+          searchedInputs: results.searchedFIDs,
+          notFoundInputs: results.notFoundFIDs,
+          failedInputs: results.failedFIDs
+        };
+      }
+    },
+    {
+      inputs: xUsernames,
+      typeOf: () => 'x_username',
+      run: async () => {
+        const results = await searchUsersByXUsernames(xUsernames);
+        return {
+          users: results.users,
+          searchedInputs: results.searchedXUsernames,
+          notFoundInputs: results.notFoundXUsernames,
+          failedInputs: results.failedXUsernames
+        };
+      }
+    },
+    {
+      inputs: ambiguousUsernames,
+      typeOf: () => 'username',
+      run: () => searchAmbiguousUsernames(ambiguousUsernames)
+    },
+    {
+      inputs: bothUsernames,
+      typeOf: () => 'username_both',
+      run: () => searchBothUsernames(bothUsernames)
+    },
+    {
+      inputs: names.map(name => name.input),
+      typeOf: input => names.find(name => name.input === input)!.type,
+      run: () => searchUsersByNames(names)
+    }
+  ];
+  const searches = categorySearches.filter(search => search.inputs.length > 0);
+
+  // Count deduplicated inputs, the same ones inputs_done counts, so progress ends at 100%
+  const inputsTotal = searches.reduce((total, search) => total + search.inputs.length, 0);
+
+  // Bankr enrichment per FID, started as soon as the user is first found
+  const enrichments = new Map<number, Promise<FarcasterUser>>();
+  let inputsDone = 0;
+  let usersEnriched = 0;
+  const emitProgress = () => onEvent?.({
+    type: 'progress',
+    progress: {
+      inputs_total: inputsTotal,
+      inputs_done: inputsDone,
+      users_total: enrichments.size,
+      users_enriched: usersEnriched
+    }
+  });
+
+  // Replace the client's raw-input estimate with the deduplicated total straight away
+  emitProgress();
+
+  // Every lookup goes through the shared Neynar limiter, so the search types can run side by side
+  const results = await Promise.all(searches.map(async search => {
+    const result = await search.run();
+
+    for (const user of result.users) {
+      if (enrichments.has(user.fid)) continue;
+
+      onEvent?.({ type: 'user', user });
+      enrichments.set(user.fid, enhanceWithBankrData(user).then(enhancedUser => {
+        usersEnriched++;
+        onEvent?.({ type: 'bankr', fid: user.fid, bankrData: enhancedUser.bankrData });
+        emitProgress();
+        return enhancedUser;
+      }));
+    }
+
+    const matches = result.matches || search.inputs.map(input => resolveMatch(input, search.typeOf(input), result));
+    onEvent?.({ type: 'matches', matches });
+
+    if (result.notFoundInputs.length > 0) {
+      onEvent?.({ type: 'not_found', inputs: result.notFoundInputs });
+    }
+    if (result.failedInputs && result.failedInputs.length > 0) {
+      onEvent?.({ type: 'failed', inputs: result.failedInputs });
+    }
+
+    inputsDone += search.inputs.length;
+    emitProgress();
+    return { ...result, matches };
+  }));
+
+  // Combine results from all search types, in input type order
+  const allSearchedInputs = results.flatMap(result => result.searchedInputs);
+  const allNotFoundInputs = results.flatMap(result => result.notFoundInputs);
+  const allFailedInputs = results.flatMap(result => result.failedInputs || []);
+  const allMatches = results.flatMap(result => result.matches);
+
+  // Remove duplicates based on FID (Farcaster ID) and wait for their Bankr data
+  const uniqueFids = Array.from(new Set(results.flatMap(result => result.users.map(user => user.fid))));
+  const enhancedUsers = await Promise.all(uniqueFids.map(fid => enrichments.get(fid)!));
+
+  // Display names for every custody, verified and Bankr EVM address shown
+  const addressNames = await reverseResolveAddresses(
+    enhancedUsers.flatMap(user => getUserAddresses(user).map(entry => entry.address))
+  );
+  onEvent?.({ type: 'names', names: addressNames });
+
+  console.log(`✅ Search complete: ${enhancedUsers.length} users, ${allNotFoundInputs.length} not found, ${allFailedInputs.length} failed`);
+
+  return {
+    users: enhancedUsers,
+    searchedInputs: allSearchedInputs,
+    notFoundInputs: allNotFoundInputs,
+    failedInputs: allFailedInputs,
+    matches: allMatches,
+    names: addressNames
+  };
+}
@@ -0,0 +1,155 @@
+import type { TokenBalance } from './neynar';
+import { CHAINS } from './chains';
+
+// Solana JSON-RPC endpoint (point at a local validator with SOLANA_RPC_URL=http://127.0.0.1:8899)
+const SOLANA_RPC_URL = CHAINS.solana.rpcUrls[0];
+
+// SPL Token and Token-2022 program IDs
+const TOKEN_PROGRAM_IDS = [
+  'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+  'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb',
+];
+
+// Wrapped SOL mint; native SOL is reported under 'native' so it doesn't merge with wSOL token accounts
+const WSOL_MINT_ADDRESS = CHAINS.solana.nativeToken.wrappedAddress;
+
+const LAMPORTS_PER_SOL = 10 ** CHAINS.solana.nativeToken.decimals;
+
+/**
+ * Well-known SPL mints; anything else gets its symbol and name from the price provider
+ */
+const KNOWN_SPL_TOKENS: { [mint: string]: { symbol: string; name: string } } = {
+  [WSOL_MINT_ADDRESS]: { symbol: 'WSOL', name: 'Wrapped SOL' },
+  'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v': { symbol: 'USDC', name: 'USD Coin' },
+  'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB': { symbol: 'USDT', name: 'Tether USD' },
+  'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263': { symbol: 'BONK', name: 'Bonk' },
+  'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN': { symbol: 'JUP', name: 'Jupiter' },
+  'EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm': { symbol: 'WIF', name: 'dogwifhat' },
+};
+
+interface ParsedTokenAccount {
+  account: {
+    data: {
+      parsed: {
+        info: {
+          mint: string;
+          tokenAmount: {
+            amount: string;
+            decimals: number;
+            uiAmountString: string;
+          };
+        };
+      };
+    };
+  };
+}
+
+/**
+ * Make a JSON-RPC call against the configured Solana RPC
+ * @param method - RPC method name
+ * @param params - RPC params
+ * @returns Promise with the RPC result
+ */
+async function solanaRpc<T>(method: string, params: unknown[]): Promise<T> {
+  const response = await fetch(SOLANA_RPC_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      id: 1,
+      jsonrpc: '2.0',
+      method,
+      params
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Solana RPC ${method} failed with status: ${response.status}`);
+  }
+
+  const data = await response.json();
+  if (data.error) {
+    throw new Error(`Solana RPC ${method} returned error: ${data.error.message || JSON.stringify(data.error)}`);
+  }
+
+  return data.result as T;
+}
+
+/**
+ * Fetch SOL and SPL token holdings for a Solana address
+ * @param address - The base58 Solana address
+ * @returns Promise with non-zero balances tagged with chain 'solana'
+ */
+export async function fetchSolanaBalances(address: string): Promise<TokenBalance[]> {
+  console.log(`☀️ Fetching SOL and SPL tokens for address: ${address}`);
+
+  const balances: TokenBalance[] = [];
+
+  try {
+    const { value: lamports } = await solanaRpc<{ value: number }>('getBalance', [address]);
+    if (lamports > 0) {
+      balances.push({
+        token_address: 'native',
+        token_name: CHAINS.solana.nativeToken.name,
+        token_symbol: CHAINS.solana.nativeToken.symbol,
+        balance: (lamports / LAMPORTS_PER_SOL).toString(),
+        value_usd: 0, // Priced later in the aggregation step
+        logo_url: undefined,
+        chain: 'solana',
+        source: 'rpc',
+        wallets: [{ address, source: 'rpc', balance: (lamports / LAMPORTS_PER_SOL).toString(), value_usd: 0 }]
+      });
+    }
+  } catch (error) {
+    console.error(`❌ Failed to fetch SOL balance for ${address}:`, error);
+  }
+
+  const splBalances = new Map<string, { amount: number; decimals: number }>();
+
+  for (const programId of TOKEN_PROGRAM_IDS) {
+    try {
+      const { value: accounts } = await solanaRpc<{ value: ParsedTokenAccount[] }>('getTokenAccountsByOwner', [
+        address,
+        { programId },
+        { encoding: 'jsonParsed' }
+      ]);
+
+      for (const account of accounts) {
+        const { mint, tokenAmount } = account.account.data.parsed.info;
+        const amount = parseFloat(tokenAmount.uiAmountString);
+
+        // Skip empty accounts and NFTs (0 decimals, single unit)
+        if (!amount || (tokenAmount.decimals === 0 && tokenAmount.amount === '1')) {
+          continue;
+        }
+
+        const existing = splBalances.get(mint);
+        splBalances.set(mint, {
+          amount: (existing?.amount || 0) + amount,
+          decimals: tokenAmount.decimals
+        });
+      }
+    } catch (error) {
+      console.error(`❌ Failed to fetch SPL token accounts (${programId}) for ${address}:`, error);
+    }
+  }
+
+  for (const [mint, { amount }] of splBalances) {
+    const known = KNOWN_SPL_TOKENS[mint];
+    balances.push({
+      token_address: mint,
+      token_name: known?.name || 'Unknown',
+      token_symbol: known?.symbol || 'UNKNOWN',
+      balance: amount.toString(),
+      value_usd: 0, // Priced later in the aggregation step
+      logo_url: undefined,
+      chain: 'solana',
+      source: 'rpc',
+      wallets: [{ address, source: 'rpc', balance: amount.toString(), value_usd: 0 }]
+    });
+  }
+
+  console.log(`☀️ Found ${balances.length} Solana tokens for ${address}`);
+  return balances;
+}
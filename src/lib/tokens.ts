@@ -0,0 +1,416 @@
+import { erc20Abi, erc20Abi_bytes32, formatUnits, getAddress, hexToString, parseAbiItem } from 'viem';
+import { getChainClient } from './rpc';
+import { ALCHEMY_NETWORKS, CHAINS, EvmChainKey } from './chains';
+import type { TokenBalance } from './neynar';
+
+export interface TokenMetadata {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+}
+
+/**
+ * Well-known ERC-20 tokens per chain that are always checked with balanceOf,
+ * regardless of whether a recent Transfer log was found for the address
+ */
+const DEFAULT_TOKEN_LISTS: Record<EvmChainKey, string[]> = {
+  base: [
+    '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', // USDC
+    '0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA', // USDbC
+    '0xfde4C96c8593536E31F229EA8f37b2ADa2699bb2', // USDT
+    '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb', // DAI
+    '0x4200000000000000000000000000000000000006', // WETH
+    '0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf', // cbBTC
+    '0x940181a94A35A4569E4529A3CDfB74e38FD98631', // AERO
+    '0x4ed4E862860beD51a9570b96d89aF5E1B0Efefed', // DEGEN
+    '0x0578d8A44db98B23BF096A382e016e29a5Ce0ffe', // HIGHER
+    '0x8C9037D1Ef5c6D1f6816278C7AAF5491d24CD527', // MOXIE
+    '0x1111111111166b7FE7bd91427724B487980aFc69', // ZORA
+    '0x532f27101965dd16442E59d40670FaF5eBB142E4', // BRETT
+    '0xAC1Bd2486aAf3B5C0fc3Fd868558b082a531B2B4', // TOSHI
+    '0x0b3e328455c4059EEb9e3f84b5543F74E24e7E1b', // VIRTUAL
+    '0x22aF33FE49fD1Fa80c7149773dDe5890D3c76F3b', // BNKR
+    '0x774EAeFE73Df7959496Ac92a77279A8D7d690b07', // mintedmerch
+  ],
+  ethereum: [
+    '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', // USDC
+    '0xdAC17F958D2ee523a2206206994597C13D831ec7', // USDT
+    '0x6B175474E89094C44Da98b954EedeAC495271d0F', // DAI
+    '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', // WETH
+    '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599', // WBTC
+    '0x514910771AF9Ca656af840dff83E8264EcF986CA', // LINK
+    '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984', // UNI
+  ],
+  optimism: [
+    '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85', // USDC
+    '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58', // USDT
+    '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1', // DAI
+    '0x4200000000000000000000000000000000000006', // WETH
+    '0x4200000000000000000000000000000000000042', // OP
+  ],
+  arbitrum: [
+    '0xaf88d065e77c8cC2239327C5EDb3A432268e5831', // USDC
+    '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9', // USDT
+    '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1', // DAI
+    '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1', // WETH
+    '0x912CE59144191C1204E64559FE8253a0e49E6548', // ARB
+    '0xfc5A1A6EB076a2C7aD06eD22C90d7E710E35ad0a', // GMX
+  ],
+};
+
+// On-chain metadata never changes for a deployed token, so cache it (keyed by chain:address) for the process lifetime
+const tokenMetadataCache = new Map<string, TokenMetadata | null>();
+
+// Alchemy returns at most 100 token balances per page; stop after this many pages per address and chain
+const ALCHEMY_TOKEN_MAX_PAGES = 5;
+
+// How many recent blocks to scan for incoming Transfer logs when Alchemy isn't configured (0 disables log discovery)
+// Only covers recent activity: 10000 blocks is about 5.5 hours on Base and 1.4 days on Ethereum
+const DISCOVERY_LOOKBACK_BLOCKS = BigInt(process.env.TOKEN_DISCOVERY_LOOKBACK_BLOCKS || '10000');
+
+// Maximum block range per eth_getLogs request (public RPCs reject large ranges)
+const DISCOVERY_CHUNK_BLOCKS = BigInt(process.env.TOKEN_DISCOVERY_CHUNK_BLOCKS || '2000');
+
+const transferEvent = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)');
+
+/**
+ * Build the token list to check on a chain, merging the defaults with extra contracts
+ * from the comma-separated TOKEN_LIST_ADDRESSES variable (plain addresses are Base,
+ * `chain:0x...` entries target another chain)
+ */
+function getConfiguredTokenList(chain: EvmChainKey): Set<string> {
+  const extraAddresses = (process.env.TOKEN_LIST_ADDRESSES || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .map(entry => entry.includes(':') ? entry.split(':') : ['base', entry])
+    .filter(([entryChain, addr]) => entryChain === chain && /^0x[a-fA-F0-9]{40}$/.test(addr))
+    .map(([, addr]) => addr);
+
+  return new Set(
+    [...DEFAULT_TOKEN_LISTS[chain], ...extraAddresses].map(addr => addr.toLowerCase())
+  );
+}
+
+/**
+ * Read decimals(), symbol() and name() for token contracts through multicall
+ * Results are cached per contract; tokens without a readable decimals() are
+ * treated as non-ERC-20 and resolve to null
+ * @param tokenAddresses - Token contract addresses to resolve
+ * @param chain - The EVM chain the contracts live on
+ * @returns Promise with a map of lowercase contract address to metadata (or null)
+ */
+export async function resolveTokenMetadata(tokenAddresses: string[], chain: EvmChainKey = 'base'): Promise<Map<string, TokenMetadata | null>> {
+  const client = getChainClient(chain);
+  const resolved = new Map<string, TokenMetadata | null>();
+  const uncached: string[] = [];
+
+  for (const tokenAddress of tokenAddresses) {
+    const key = tokenAddress.toLowerCase();
+    if (tokenMetadataCache.has(`${chain}:${key}`)) {
+      resolved.set(key, tokenMetadataCache.get(`${chain}:${key}`)!);
+    } else if (!uncached.includes(key)) {
+      uncached.push(key);
+    }
+  }
+
+  if (uncached.length === 0) {
+    return resolved;
+  }
+
+  console.log(`🏷️ Resolving on-chain metadata for ${uncached.length} token contracts on ${chain}`);
+
+  const fields = ['decimals', 'symbol', 'name'] as const;
+  const results = await client.multicall({
+    contracts: uncached.flatMap(tokenAddress => fields.map(functionName => ({
+      address: getAddress(tokenAddress),
+      abi: erc20Abi,
+      functionName,
+    }))),
+    allowFailure: true,
+  });
+
+  // Some older tokens (e.g. MKR-style) return bytes32 for symbol() and name()
+  const bytes32Fallbacks = uncached.filter((_, index) =>
+    results[index * 3 + 1].status !== 'success' || results[index * 3 + 2].status !== 'success'
+  );
+  const bytes32Results = bytes32Fallbacks.length > 0
+    ? await client.multicall({
+        contracts: bytes32Fallbacks.flatMap(tokenAddress => (['symbol', 'name'] as const).map(functionName => ({
+          address: getAddress(tokenAddress),
+          abi: erc20Abi_bytes32,
+          functionName,
+        }))),
+        allowFailure: true,
+      })
+    : [];
+
+  const readBytes32 = (tokenAddress: string, offset: number): string | undefined => {
+    const fallbackIndex = bytes32Fallbacks.indexOf(tokenAddress);
+    if (fallbackIndex === -1) return undefined;
+    const result = bytes32Results[fallbackIndex * 2 + offset];
+    if (result?.status !== 'success') return undefined;
+    return hexToString(result.result as `0x${string}`, { size: 32 }).replace(/\0/g, '').trim();
+  };
+
+  uncached.forEach((tokenAddress, index) => {
+    const [decimalsResult, symbolResult, nameResult] = results.slice(index * 3, index * 3 + 3);
+
+    if (decimalsResult.status !== 'success') {
+      console.log(`⚠️ decimals() failed for ${tokenAddress}, not an ERC-20 token`);
+      tokenMetadataCache.set(`${chain}:${tokenAddress}`, null);
+      resolved.set(tokenAddress, null);
+      return;
+    }
+
+    const symbol = symbolResult.status === 'success'
+      ? String(symbolResult.result)
+      : readBytes32(tokenAddress, 0);
+    const name = nameResult.status === 'success'
+      ? String(nameResult.result)
+      : readBytes32(tokenAddress, 1);
+
+    const metadata: TokenMetadata = {
+      address: tokenAddress,
+      decimals: Number(decimalsResult.result),
+      symbol: symbol || 'UNKNOWN',
+      name: name || symbol || 'Unknown',
+    };
+
+    tokenMetadataCache.set(`${chain}:${tokenAddress}`, metadata);
+    resolved.set(tokenAddress, metadata);
+  });
+
+  return resolved;
+}
+
+interface AlchemyTokenBalancesResponse {
+  result?: {
+    tokenBalances: Array<{ contractAddress: string; tokenBalance: string | null }>;
+    pageKey?: string;
+  };
+  error?: { message: string };
+}
+
+/**
+ * Whether held tokens are discovered from an indexer (Alchemy) rather than recent Transfer logs
+ * @returns True when ALCHEMY_API_KEY is set
+ */
+export function hasIndexedTokenDiscovery(): boolean {
+  return !!process.env.ALCHEMY_API_KEY;
+}
+
+/**
+ * Discover every ERC-20 contract an address holds a balance of, using Alchemy's indexed
+ * alchemy_getTokenBalances, so tokens received long ago are found too
+ * @param address - The EVM address to look up
+ * @param chain - The EVM chain to look up
+ * @returns Promise with lowercase token contract addresses, or null if Alchemy isn't configured or failed
+ */
+export async function discoverTokensFromAlchemy(address: string, chain: EvmChainKey = 'base'): Promise<string[] | null> {
+  const apiKey = process.env.ALCHEMY_API_KEY;
+  if (!apiKey) {
+    return null;
+  }
+
+  const discovered = new Set<string>();
+  let pageKey: string | undefined;
+
+  try {
+    for (let page = 0; page < ALCHEMY_TOKEN_MAX_PAGES; page++) {
+      const response = await fetch(`https://${ALCHEMY_NETWORKS[chain]}.g.alchemy.com/v2/${apiKey}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          id: 1,
+          jsonrpc: '2.0',
+          method: 'alchemy_getTokenBalances',
+          params: [address, 'erc20', ...(pageKey ? [{ pageKey }] : [])]
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Alchemy alchemy_getTokenBalances failed with status: ${response.status}`);
+      }
+
+      const data: AlchemyTokenBalancesResponse = await response.json();
+      if (data.error || !data.result) {
+        throw new Error(`Alchemy alchemy_getTokenBalances returned error: ${data.error?.message || 'no result'}`);
+      }
+
+      for (const { contractAddress, tokenBalance } of data.result.tokenBalances) {
+        if (tokenBalance && BigInt(tokenBalance) > BigInt(0)) {
+          discovered.add(contractAddress.toLowerCase());
+        }
+      }
+
+      pageKey = data.result.pageKey;
+      if (!pageKey) break;
+    }
+  } catch (error) {
+    console.error(`❌ Failed to discover tokens from Alchemy for ${address} on ${chain}:`, error);
+    return null;
+  }
+
+  console.log(`🔎 Discovered ${discovered.size} token contracts from Alchemy for ${address} on ${chain}`);
+  return Array.from(discovered);
+}
+
+/**
+ * Discover token contracts that have sent tokens to an address recently
+ * by scanning ERC-20 Transfer logs where the address is the recipient
+ * @param address - The EVM address to scan for
+ * @param chain - The EVM chain to scan
+ * @returns Promise with lowercase token contract addresses
+ */
+export async function discoverTokensFromTransferLogs(address: string, chain: EvmChainKey = 'base'): Promise<string[]> {
+  if (DISCOVERY_LOOKBACK_BLOCKS <= BigInt(0)) {
+    return [];
+  }
+
+  const client = getChainClient(chain);
+  const discovered = new Set<string>();
+
+  try {
+    const latestBlock = await client.getBlockNumber();
+    const startBlock = latestBlock > DISCOVERY_LOOKBACK_BLOCKS ? latestBlock - DISCOVERY_LOOKBACK_BLOCKS : BigInt(0);
+
+    for (let fromBlock = startBlock; fromBlock <= latestBlock; fromBlock += DISCOVERY_CHUNK_BLOCKS) {
+      const toBlock = fromBlock + DISCOVERY_CHUNK_BLOCKS - BigInt(1) < latestBlock
+        ? fromBlock + DISCOVERY_CHUNK_BLOCKS - BigInt(1)
+        : latestBlock;
+
+      try {
+        const logs = await client.getLogs({
+          event: transferEvent,
+          args: { to: getAddress(address) },
+          fromBlock,
+          toBlock,
+        });
+
+        for (const log of logs) {
+          // ERC-721 Transfer shares the signature but indexes tokenId as a 4th topic
+          if (log.topics.length === 3) {
+            discovered.add(log.address.toLowerCase());
+          }
+        }
+      } catch (error) {
+        console.log(`⚠️ Transfer log scan failed for ${address} on ${chain} in blocks ${fromBlock}-${toBlock}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error(`❌ Failed to scan Transfer logs for ${address} on ${chain}:`, error);
+  }
+
+  console.log(`🔎 Discovered ${discovered.size} token contracts from Transfer logs for ${address} on ${chain}`);
+  return Array.from(discovered);
+}
+
+/**
+ * Fetch the native ETH balance of an address on an EVM chain
+ * Reported under the 'native' token address so it merges with Neynar's native entries
+ * @param address - The wallet address
+ * @param chain - The EVM chain to read from
+ * @returns Promise with the native balance, or null if it is zero or could not be read
+ */
+export async function fetchNativeBalance(address: string, chain: EvmChainKey = 'base'): Promise<TokenBalance | null> {
+  try {
+    const rawBalance = await getChainClient(chain).getBalance({ address: address as `0x${string}` });
+    if (rawBalance === BigInt(0)) {
+      return null;
+    }
+
+    const nativeToken = CHAINS[chain].nativeToken;
+    const balanceFormatted = formatUnits(rawBalance, nativeToken.decimals);
+    console.log(`✅ Found ${balanceFormatted} native ${nativeToken.symbol} in ${address} on ${chain}`);
+
+    return {
+      token_address: 'native',
+      token_name: nativeToken.name,
+      token_symbol: nativeToken.symbol,
+      balance: balanceFormatted,
+      value_usd: 0, // Priced later in the aggregation step
+      logo_url: undefined,
+      chain,
+      source: 'rpc',
+      wallets: [{ address, source: 'rpc', balance: balanceFormatted, value_usd: 0 }]
+    };
+  } catch (error) {
+    console.error(`❌ Failed to fetch native balance for ${address} on ${chain}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Fetch every ERC-20 balance an address holds on an EVM chain
+ * Candidates come from the configured token list plus Alchemy discovery (falling back to
+ * recent Transfer logs when Alchemy isn't configured or fails),
+ * all balanceOf calls are batched into a single multicall, and decimals/symbol/name
+ * are read on-chain for every token with a non-zero balance
+ * @param address - The EVM address to fetch balances for
+ * @param chain - The EVM chain to read from
+ * @param extraTokens - Additional token contracts to always check (e.g. a token being searched for)
+ * @returns Promise with non-zero token balances tagged with the chain
+ */
+export async function fetchErc20Balances(address: string, chain: EvmChainKey = 'base', extraTokens: string[] = []): Promise<TokenBalance[]> {
+  const client = getChainClient(chain);
+  const tokenList = getConfiguredTokenList(chain);
+  const discoveredTokens = await discoverTokensFromAlchemy(address, chain)
+    ?? await discoverTokensFromTransferLogs(address, chain);
+
+  const candidates = Array.from(new Set([...tokenList, ...discoveredTokens, ...extraTokens.map(addr => addr.toLowerCase())]));
+  console.log(`🔗 Checking ${candidates.length} token contracts for ${address} on ${chain} (${tokenList.size} listed, ${discoveredTokens.length} discovered)`);
+
+  const results = await client.multicall({
+    contracts: candidates.map(tokenAddress => ({
+      address: getAddress(tokenAddress),
+      abi: erc20Abi,
+      functionName: 'balanceOf' as const,
+      args: [getAddress(address)] as const,
+    })),
+    allowFailure: true,
+  });
+
+  const heldTokens: Array<{ tokenAddress: string; rawBalance: bigint }> = [];
+
+  results.forEach((result, index) => {
+    if (result.status !== 'success') {
+      console.log(`⚠️ balanceOf failed for ${candidates[index]}:`, result.error?.message);
+      return;
+    }
+
+    const rawBalance = result.result as bigint;
+    if (rawBalance > BigInt(0)) {
+      heldTokens.push({ tokenAddress: candidates[index], rawBalance });
+    }
+  });
+
+  const metadata = await resolveTokenMetadata(heldTokens.map(token => token.tokenAddress), chain);
+  const balances: TokenBalance[] = [];
+
+  for (const { tokenAddress, rawBalance } of heldTokens) {
+    const tokenMetadata = metadata.get(tokenAddress);
+    if (!tokenMetadata) {
+      continue;
+    }
+
+    const balanceFormatted = formatUnits(rawBalance, tokenMetadata.decimals);
+    console.log(`✅ Found ${balanceFormatted} ${tokenMetadata.symbol} in ${address} on ${chain}`);
+
+    balances.push({
+      token_address: tokenAddress,
+      token_name: tokenMetadata.name,
+      token_symbol: tokenMetadata.symbol,
+      balance: balanceFormatted,
+      value_usd: 0, // Priced later in the aggregation step
+      logo_url: undefined,
+      chain,
+      source: 'rpc',
+      wallets: [{ address, source: 'rpc', balance: balanceFormatted, value_usd: 0 }]
+    });
+  }
+
+  return balances;
+}
@@ -0,0 +1,207 @@
+import { describe, expect, it } from 'vitest';
+import { decodeBase58, getSearchInputKey, normalizeSearchInput, parseBulkInput, validateAddressOrUsername, validateWalletAddress } from './validation';
+
+const SOLANA_ADDRESS = 'DRpbCBMxVnDK7maPM5tGv6MvB3v1sRMC86PZ8okm21hy';
+const CHECKSUMMED_ADDRESS = '0x8ba1f109551bD432803012645Ac136ddd64DBA72';
+
+describe('validateWalletAddress', () => {
+  it('accepts checksummed, all-lowercase and all-uppercase addresses without a warning', () => {
+    for (const address of [CHECKSUMMED_ADDRESS, CHECKSUMMED_ADDRESS.toLowerCase(), `0x${CHECKSUMMED_ADDRESS.slice(2).toUpperCase()}`]) {
+      expect(validateWalletAddress(address)).toEqual({ isValid: true, type: 'ethereum' });
+    }
+  });
+
+  it('warns about a bad mixed-case checksum but keeps the address valid', () => {
+    const result = validateWalletAddress('0x8Ba1f109551bD432803012645Ac136ddd64DBA72');
+
+    expect(result.isValid).toBe(true);
+    expect(result.type).toBe('ethereum');
+    expect(result.warning).toMatch(/checksum/i);
+  });
+
+  it('accepts base58 strings that decode to a 32-byte key', () => {
+    expect(validateWalletAddress(SOLANA_ADDRESS)).toEqual({ isValid: true, type: 'solana' });
+  });
+
+  it('rejects base58 strings that do not decode to 32 bytes', () => {
+    for (const address of ['2'.repeat(32), 'z'.repeat(44)]) {
+      const result = validateWalletAddress(address);
+      expect(result.isValid).toBe(false);
+      expect(result.error).toMatch(/32-byte/);
+    }
+  });
+});
+
+describe('decodeBase58', () => {
+  it('decodes leading 1s as zero bytes', () => {
+    expect(Array.from(decodeBase58('11z') || [])).toEqual([0, 0, 57]);
+  });
+
+  it('rejects characters outside the base58 alphabet', () => {
+    expect(decodeBase58('0OIl')).toBeNull();
+  });
+});
+
+describe('normalizeSearchInput links and handles', () => {
+  it.each([
+    ['https://farcaster.xyz/dwr', { value: 'dwr', platform: 'farcaster', type: 'farcaster' }],
+    ['farcaster.xyz/dwr/0x1234abcd', { value: 'dwr', platform: 'farcaster', type: 'farcaster' }],
+    ['https://warpcast.com/v?ref=share', { value: 'v', platform: 'warpcast', type: 'farcaster' }],
+    ['https://warpcast.com/~/profiles/3', { value: '3', platform: 'warpcast', type: 'fid' }],
+    ['https://x.com/@dwr#top', { value: 'dwr', platform: 'x', type: 'x_username' }],
+    ['https://mobile.twitter.com/dwr', { value: 'dwr', platform: 'x', type: 'x_username' }],
+    [`https://basescan.org/address/${CHECKSUMMED_ADDRESS}`, { value: CHECKSUMMED_ADDRESS, platform: 'basescan', type: 'ethereum' }],
+    [`https://www.etherscan.io/address/${CHECKSUMMED_ADDRESS}`, { value: CHECKSUMMED_ADDRESS, platform: 'etherscan', type: 'ethereum' }],
+    [`https://solscan.io/account/${SOLANA_ADDRESS}`, { value: SOLANA_ADDRESS, platform: 'solscan', type: 'solana' }],
+    ['@dwr', { value: 'dwr', platform: 'handle' }]
+  ])('extracts the identifier from %s', (input, expected) => {
+    expect(normalizeSearchInput(input)).toEqual(expected);
+  });
+
+  it('returns an empty value for known links without an identifier', () => {
+    expect(normalizeSearchInput('https://basescan.org/tx/0xabc')).toEqual({ value: '', platform: 'basescan' });
+    expect(normalizeSearchInput('https://warpcast.com/~/channel/base')).toEqual({ value: '', platform: 'warpcast' });
+  });
+
+  it('leaves unknown hosts and plain inputs unchanged', () => {
+    expect(normalizeSearchInput('https://example.com/dwr')).toEqual({ value: 'https://example.com/dwr', platform: null });
+    expect(normalizeSearchInput('dwr.eth')).toEqual({ value: 'dwr.eth', platform: null });
+  });
+});
+
+describe('validateAddressOrUsername links and handles', () => {
+  it('validates the identifier a link points at', () => {
+    expect(validateAddressOrUsername('https://x.com/dwr')).toEqual({ isValid: true, type: 'x_username', value: 'dwr', platform: 'x' });
+    expect(validateAddressOrUsername(`solscan.io/account/${SOLANA_ADDRESS}`)).toEqual({ isValid: true, type: 'solana', value: SOLANA_ADDRESS, platform: 'solscan' });
+  });
+
+  it('detects the type of an @handle like a plain input', () => {
+    expect(validateAddressOrUsername('@dwr')).toEqual({ isValid: true, type: 'username', value: 'dwr', platform: 'handle' });
+  });
+
+  it('rejects known links without an identifier', () => {
+    const result = validateAddressOrUsername('https://basescan.org/tx/0xabc');
+
+    expect(result.isValid).toBe(false);
+    expect(result.platform).toBe('basescan');
+    expect(result.error).toMatch(/Couldn't find/);
+  });
+
+  it('rejects a link whose identifier has the wrong shape', () => {
+    expect(validateAddressOrUsername('https://basescan.org/address/0x1234').isValid).toBe(false);
+  });
+});
+
+describe('validateAddressOrUsername type prefixes', () => {
+  it.each([
+    ['fc:dwr', 'farcaster', 'dwr'],
+    ['x:@dwr', 'x_username', 'dwr'],
+    ['FID:3', 'fid', '3'],
+    [`eth:${CHECKSUMMED_ADDRESS}`, 'ethereum', CHECKSUMMED_ADDRESS],
+    [`sol: ${SOLANA_ADDRESS}`, 'solana', SOLANA_ADDRESS],
+    ['both:dwr', 'username_both', 'dwr']
+  ])('forces the type of %s', (input, type, value) => {
+    expect(validateAddressOrUsername(input)).toEqual({ isValid: true, type, value });
+  });
+
+  it('rejects values that do not fit the forced type', () => {
+    expect(validateAddressOrUsername('fid:dwr')).toMatchObject({ isValid: false, error: 'Invalid FID: "dwr"' });
+    expect(validateAddressOrUsername('x:dwr.eth')).toMatchObject({ isValid: false, error: 'Invalid X username: "dwr.eth"' });
+    expect(validateAddressOrUsername(`eth:${SOLANA_ADDRESS}`).isValid).toBe(false);
+    expect(validateAddressOrUsername(`sol:${CHECKSUMMED_ADDRESS}`).isValid).toBe(false);
+    expect(validateAddressOrUsername('both:not a name').isValid).toBe(false);
+  });
+
+  it('carries address warnings through an eth: prefix', () => {
+    expect(validateAddressOrUsername('eth:0x8Ba1f109551bD432803012645Ac136ddd64DBA72').warning).toMatch(/checksum/i);
+  });
+
+  it('treats unknown prefixes as part of the input', () => {
+    expect(validateAddressOrUsername('https://x.com/dwr')).toEqual({ isValid: true, type: 'x_username', value: 'dwr', platform: 'x' });
+    expect(validateAddressOrUsername('foo:dwr')).toMatchObject({ isValid: false, type: null, value: 'foo:dwr' });
+  });
+
+  it('keys both: inputs apart from plain usernames', () => {
+    expect(getSearchInputKey('both:dwr')).toBe('username_both:dwr');
+    expect(getSearchInputKey('both:dwr')).not.toBe(getSearchInputKey('dwr'));
+  });
+});
+
+describe('getSearchInputKey', () => {
+  it('folds case for EVM addresses and usernames', () => {
+    expect(getSearchInputKey('0x8BA1f109551bD432803012645Ac136ddd64DBA72')).toBe(getSearchInputKey('0x8ba1f109551bd432803012645ac136ddd64dba72'));
+    expect(getSearchInputKey('DWR')).toBe(getSearchInputKey('dwr'));
+  });
+
+  it('keeps base58 Solana addresses case-sensitive', () => {
+    expect(getSearchInputKey(SOLANA_ADDRESS)).toBe(`solana:${SOLANA_ADDRESS}`);
+  });
+});
+
+describe('parseBulkInput', () => {
+  it('skips inputs already listed, ignoring case and a leading @', () => {
+    const result = parseBulkInput('DWR\n@dwr\nv\nhttps://farcaster.xyz/v', ['dwr', 'fc:v']);
+
+    expect(result.valid).toEqual(['v']);
+    expect(result.duplicates).toEqual(['DWR', '@dwr', 'https://farcaster.xyz/v']);
+  });
+
+  it('keeps Solana addresses that differ only in case apart', () => {
+    const otherAddress = 'DrpbCBMxVnDK7maPM5tGv6MvB3v1sRMC86PZ8okm21hy';
+    const result = parseBulkInput(`${SOLANA_ADDRESS}\n${otherAddress}\n${SOLANA_ADDRESS}`, []);
+
+    expect(result.valid).toEqual([SOLANA_ADDRESS, otherAddress]);
+    expect(result.duplicates).toEqual([SOLANA_ADDRESS]);
+  });
+});
+
+describe('parseBulkInput with CSV files', () => {
+  const address = '0x8ba1f109551bd432803012645ac136ddd64dba72';
+  const otherAddress = '0x000000000000000000000000000000000000dead';
+
+  it('skips the header row and reads only the address column', () => {
+    const result = parseBulkInput(`address,amount\n${address},100\n${otherAddress},250\n`, [], { csv: true });
+
+    expect(result.valid).toEqual([address, otherAddress]);
+    expect(result.invalid).toEqual([]);
+    expect(result.csv).toEqual({ column: 1, header: 'address', ignoredColumns: 1 });
+  });
+
+  it('finds the address column when it is not the first one', () => {
+    const result = parseBulkInput(`Amount,Wallet Address\n100,${address}\n"1,000",${otherAddress}`, [], { csv: true });
+
+    expect(result.valid).toEqual([address, otherAddress]);
+    expect(result.csv).toEqual({ column: 2, header: 'Wallet Address', ignoredColumns: 1 });
+  });
+
+  it('reads a headerless file by its identifier column', () => {
+    const result = parseBulkInput(`100,${address}\n250,dwr.eth`, [], { csv: true });
+
+    expect(result.valid).toEqual([address, 'dwr.eth']);
+    expect(result.csv).toEqual({ column: 2, ignoredColumns: 1 });
+  });
+
+  it('keeps the first row of a username list that has no header', () => {
+    const result = parseBulkInput('dwr\nv\n', [], { csv: true });
+
+    expect(result.valid).toEqual(['dwr', 'v']);
+    expect(result.csv).toEqual({ column: 1, ignoredColumns: 0 });
+  });
+
+  it('prefers a named identifier column over amounts that look like FIDs', () => {
+    const result = parseBulkInput('amount,fid\n100,3\n250,194', [], { csv: true });
+
+    expect(result.valid).toEqual(['3', '194']);
+    expect(result.csv?.header).toBe('fid');
+  });
+
+  it('reports line numbers of the original file', () => {
+    const result = parseBulkInput(`address,amount\n\n${address},1\nnot an address!,2`, [], { csv: true });
+
+    expect(result.invalid).toEqual([{ line: 4, input: 'not an address!', error: expect.any(String) }]);
+  });
+
+  it('splits plain text on commas when it is not read as CSV', () => {
+    expect(parseBulkInput(`address,amount\n${address},100`).valid).toEqual(['address', 'amount', address, '100']);
+  });
+});
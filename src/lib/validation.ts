@@ -3,6 +3,15 @@
  * This file doesn't import any Node.js-specific libraries
  */
 
+import { checksumAddress } from 'viem';
+import { CHAINS, ChainKey } from './chains';
+import { parseCsvLine } from './csv';
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// Solana public keys are 32-byte ed25519 keys
+const SOLANA_ADDRESS_BYTES = 32;
+
 /**
  * Validate if a string is a valid Ethereum address
  * @param address - The address to validate
@@ -13,13 +22,68 @@ export function isValidEthereumAddress(address: string): boolean {
   return /^0x[a-fA-F0-9]{40}$/.test(address);
 }
 
+/**
+ * Check the EIP-55 mixed-case checksum of an Ethereum address
+ * All-lowercase and all-uppercase addresses carry no checksum and always pass
+ * @param address - An address that passes isValidEthereumAddress
+ * @returns boolean indicating if the checksum is valid (or absent)
+ */
+export function hasValidEthereumChecksum(address: string): boolean {
+  const hex = address.slice(2);
+  if (hex === hex.toLowerCase() || hex === hex.toUpperCase()) {
+    return true;
+  }
+  return checksumAddress(address as `0x${string}`) === address;
+}
+
+/**
+ * Decode a base58 (Bitcoin alphabet) string
+ * @param value - The base58 string to decode
+ * @returns Decoded bytes, or null if the string contains non-base58 characters
+ */
+export function decodeBase58(value: string): Uint8Array | null {
+  // Little-endian while decoding, reversed at the end
+  const bytes: number[] = [];
+
+  for (let i = 0; i < value.length; i++) {
+    let carry = BASE58_ALPHABET.indexOf(value[i]);
+    if (carry < 0) return null;
+
+    for (let j = 0; j < bytes.length; j++) {
+      carry += bytes[j] * 58;
+      bytes[j] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  // Each leading '1' encodes a leading zero byte
+  for (let i = 0; i < value.length && value[i] === '1'; i++) {
+    bytes.push(0);
+  }
+
+  return Uint8Array.from(bytes.reverse());
+}
+
 /**
  * Validate if a string is a valid Solana address
  * @param address - The address to validate  
  * @returns boolean indicating if the address is valid
  */
 export function isValidSolanaAddress(address: string): boolean {
-  // Basic Solana address validation (base58 string, 32-44 characters)
+  // Base58 string of 32-44 characters that decodes to exactly 32 bytes
+  return isSolanaAddressLike(address) && decodeBase58(address)?.length === SOLANA_ADDRESS_BYTES;
+}
+
+/**
+ * Check if a string has the shape of a Solana address without decoding it
+ * @param address - The string to check
+ * @returns boolean indicating if it is a 32-44 character base58 string
+ */
+function isSolanaAddressLike(address: string): boolean {
   return /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address);
 }
 
@@ -34,6 +98,24 @@ export function isValidFarcasterUsername(username: string): boolean {
   return /^[a-zA-Z0-9._-]{1,15}(\.eth)?$/.test(username);
 }
 
+/**
+ * Validate if a string is a Basename (a *.base.eth name on Base)
+ * @param name - The name to validate
+ * @returns boolean indicating if the name is a Basename
+ */
+export function isValidBasename(name: string): boolean {
+  return /^[a-zA-Z0-9-]+\.base\.eth$/.test(name);
+}
+
+/**
+ * Validate if a string is an ENS name (one or more labels ending in .eth)
+ * @param name - The name to validate
+ * @returns boolean indicating if the name is an ENS name
+ */
+export function isValidEnsName(name: string): boolean {
+  return /^(?:[a-zA-Z0-9-_]+\.)+eth$/.test(name);
+}
+
 /**
  * Validate if a string is a valid Farcaster ID (FID)
  * @param fid - The FID to validate
@@ -63,7 +145,8 @@ export function isValidXUsername(username: string): boolean {
 export function validateWalletAddress(address: string): { 
   isValid: boolean; 
   type: 'ethereum' | 'solana' | null; 
-  error?: string 
+  error?: string;
+  warning?: string 
 } {
   if (!address || address.trim().length === 0) {
     return { isValid: false, type: null, error: 'Address is required' };
@@ -72,6 +155,14 @@ export function validateWalletAddress(address: string): {
   const trimmedAddress = address.trim();
 
   if (isValidEthereumAddress(trimmedAddress)) {
+    // A bad checksum usually means a typo, but the address is still searchable
+    if (!hasValidEthereumChecksum(trimmedAddress)) {
+      return {
+        isValid: true,
+        type: 'ethereum',
+        warning: 'Bad checksum: the mixed-case address may be mistyped. Double-check it, or enter it in lowercase.'
+      };
+    }
     return { isValid: true, type: 'ethereum' };
   }
 
@@ -79,6 +170,14 @@ export function validateWalletAddress(address: string): {
     return { isValid: true, type: 'solana' };
   }
 
+  if (isSolanaAddressLike(trimmedAddress)) {
+    return {
+      isValid: false,
+      type: null,
+      error: 'Invalid Solana address: it does not decode to a 32-byte public key.'
+    };
+  }
+
   return { 
     isValid: false, 
     type: null, 
@@ -113,25 +212,168 @@ export function validateUsername(username: string): {
   };
 }
 
+// 'username' matches both the Farcaster and X patterns and is tried as Farcaster first, then X
+// 'username_both' (from a both: prefix) is searched as a Farcaster and an X username, returning both matches
+// 'ens' names are resolved on-chain first and fall back to a Farcaster username lookup
+export type SearchInputType =
+  | 'ethereum'
+  | 'solana'
+  | 'farcaster'
+  | 'fid'
+  | 'x_username'
+  | 'username'
+  | 'username_both'
+  | 'ens'
+  | 'basename';
+
+// Explicit type prefixes, e.g. x:dwr, that force how an input is searched
+export const SEARCH_INPUT_PREFIXES: Record<string, SearchInputType> = {
+  fc: 'farcaster',
+  x: 'x_username',
+  fid: 'fid',
+  eth: 'ethereum',
+  sol: 'solana',
+  both: 'username_both'
+};
+
+// Where an input was extracted from: a profile or explorer link, or an @handle
+export type InputPlatform = 'farcaster' | 'warpcast' | 'x' | 'basescan' | 'etherscan' | 'solscan' | 'handle';
+
+export const INPUT_PLATFORM_LABELS: Record<InputPlatform, string> = {
+  farcaster: 'Farcaster link',
+  warpcast: 'Warpcast link',
+  x: 'X link',
+  basescan: 'BaseScan link',
+  etherscan: 'Etherscan link',
+  solscan: 'Solscan link',
+  handle: '@handle'
+};
+
+const INPUT_PLATFORM_HOSTS: Record<string, InputPlatform> = {
+  'farcaster.xyz': 'farcaster',
+  'warpcast.com': 'warpcast',
+  'x.com': 'x',
+  'twitter.com': 'x',
+  'basescan.org': 'basescan',
+  'etherscan.io': 'etherscan',
+  'solscan.io': 'solscan'
+};
+
+// Optional scheme and www./mobile. prefix, then host, path, and an ignored query/fragment
+const LINK_PATTERN = /^(?:https?:\/\/)?(?:www\.|mobile\.)?([a-z0-9-]+(?:\.[a-z0-9-]+)+)(\/[^?#]*)?(?:[?#].*)?$/i;
+
+export interface NormalizedSearchInput {
+  // Identifier to look up; empty if a known link had none
+  value: string;
+  platform: InputPlatform | null;
+  // Input type forced by a prefix or implied by the link, e.g. x.com links are always X usernames
+  type?: SearchInputType;
+}
+
+export interface SearchInputValidation {
+  isValid: boolean;
+  type: SearchInputType | null;
+  // Identifier to look up: the trimmed input, or the one extracted from a link or @handle
+  value: string;
+  platform?: InputPlatform;
+  error?: string;
+  // Set for valid inputs that are probably mistyped (e.g. a bad EIP-55 checksum)
+  warning?: string;
+}
+
 /**
- * Validate if a string is either a valid wallet address, username, FID, or X username
- * @param input - The input to validate
+ * Extract the identifier from a type-prefixed input (see SEARCH_INPUT_PREFIXES), a pasted
+ * profile/explorer link, or an @handle
+ * Supports farcaster.xyz and warpcast.com profiles (/username, /~/profiles/fid, and casts
+ * under a profile), x.com / twitter.com profiles, basescan.org and etherscan.io /address/
+ * pages, and solscan.io /account/ pages. Anything else is returned unchanged
+ * @param input - Trimmed search input
+ * @returns The identifier with the platform it came from
+ */
+export function normalizeSearchInput(input: string): NormalizedSearchInput {
+  const prefix = input.match(/^([a-z]+):(.*)$/i);
+  const prefixType = prefix ? SEARCH_INPUT_PREFIXES[prefix[1].toLowerCase()] : undefined;
+  if (prefix && prefixType) {
+    return { value: prefix[2].trim().replace(/^@/, ''), platform: null, type: prefixType };
+  }
+
+  if (input.startsWith('@')) {
+    return { value: input.slice(1), platform: 'handle' };
+  }
+
+  const match = input.match(LINK_PATTERN);
+  const platform = match ? INPUT_PLATFORM_HOSTS[match[1].toLowerCase()] : undefined;
+  if (!match || !platform) {
+    return { value: input, platform: null };
+  }
+
+  const segments = (match[2] || '').split('/').filter(Boolean);
+
+  switch (platform) {
+    case 'farcaster':
+    case 'warpcast':
+      if (segments[0] === '~') {
+        return segments[1] === 'profiles' && segments[2]
+          ? { value: segments[2], platform, type: 'fid' }
+          : { value: '', platform };
+      }
+      return { value: (segments[0] || '').replace(/^@/, ''), platform, type: 'farcaster' };
+    case 'x':
+      return { value: (segments[0] || '').replace(/^@/, ''), platform, type: 'x_username' };
+    case 'basescan':
+    case 'etherscan':
+      return segments[0] === 'address' && segments[1]
+        ? { value: segments[1], platform, type: 'ethereum' }
+        : { value: '', platform };
+    case 'solscan':
+      return segments[0] === 'account' && segments[1]
+        ? { value: segments[1], platform, type: 'solana' }
+        : { value: '', platform };
+    default:
+      return { value: input, platform: null };
+  }
+}
+
+/**
+ * Validate an identifier whose type is forced by a prefix or implied by the link it came from
+ * @param value - Extracted identifier
+ * @param type - Forced type
  * @returns object with validation result and input type
  */
-export function validateAddressOrUsername(input: string): { 
-  isValid: boolean; 
-  type: 'ethereum' | 'solana' | 'farcaster' | 'fid' | 'x_username' | 'username' | null; 
-  error?: string 
-} {
-  if (!input || input.trim().length === 0) {
-    return { isValid: false, type: null, error: 'Input is required' };
+function validateAsType(value: string, type: SearchInputType): Omit<SearchInputValidation, 'value' | 'platform'> {
+  if (type === 'ethereum' || type === 'solana') {
+    const addressValidation = validateWalletAddress(value);
+    return addressValidation.type === type
+      ? addressValidation
+      : { isValid: false, type: null, error: addressValidation.error || `Invalid ${type === 'ethereum' ? 'Ethereum' : 'Solana'} address` };
   }
 
-  const trimmedInput = input.trim();
+  const isValid =
+    type === 'farcaster' ? isValidFarcasterUsername(value) :
+    type === 'x_username' ? isValidXUsername(value) :
+    type === 'fid' ? isValidFID(value) :
+    type === 'username_both' ? isValidFarcasterUsername(value) || isValidXUsername(value) :
+    false;
 
+  return isValid
+    ? { isValid: true, type }
+    : {
+      isValid: false,
+      type: null,
+      error: `Invalid ${type === 'fid' ? 'FID' : type === 'farcaster' ? 'Farcaster username' : type === 'x_username' ? 'X username' : 'username'}: "${value}"`
+    };
+}
+
+/**
+ * Work out the type of a plain (non-link) input
+ * @param trimmedInput - The input to classify
+ * @returns object with validation result and input type
+ */
+function detectInputType(trimmedInput: string): Omit<SearchInputValidation, 'value' | 'platform'> {
   // First try wallet address validation
+  // Base58 strings of Solana length can't be anything else, so keep the specific error
   const addressValidation = validateWalletAddress(trimmedInput);
-  if (addressValidation.isValid) {
+  if (addressValidation.isValid || isSolanaAddressLike(trimmedInput)) {
     return addressValidation;
   }
 
@@ -140,6 +382,14 @@ export function validateAddressOrUsername(input: string): {
     return { isValid: true, type: 'fid' };
   }
 
+  // On-chain names, checked before usernames since fnames can also end in .eth
+  if (isValidBasename(trimmedInput)) {
+    return { isValid: true, type: 'basename' };
+  }
+  if (isValidEnsName(trimmedInput)) {
+    return { isValid: true, type: 'ens' };
+  }
+
   // For username-like inputs, we need to handle the ambiguity between Farcaster and X usernames
   // Since patterns overlap (e.g., "svvvg3" could be either), we'll use a generic 'username' type
   // and let the search logic try both APIs to determine which one has the user
@@ -169,26 +419,249 @@ export function validateAddressOrUsername(input: string): {
   return { 
     isValid: false, 
     type: null, 
-    error: 'Invalid format. Must be a valid wallet address (Ethereum/Solana), Farcaster username, FID, or X username.' 
+    error: 'Invalid format. Must be a valid wallet address (Ethereum/Solana), ENS name, Basename, Farcaster username, FID, X username, or a profile/explorer link.' 
+  };
+}
+
+/**
+ * Validate if a string is either a valid wallet address, username, FID, or X username,
+ * including type prefixes, profile/explorer links and @handles (see normalizeSearchInput)
+ * @param input - The input to validate
+ * @returns object with validation result, input type, and the identifier to look up
+ */
+export function validateAddressOrUsername(input: string): SearchInputValidation {
+  if (!input || input.trim().length === 0) {
+    return { isValid: false, type: null, value: '', error: 'Input is required' };
+  }
+
+  const { value, platform, type } = normalizeSearchInput(input.trim());
+  const source = platform ? { platform } : {};
+
+  if (!value) {
+    return { isValid: false, type: null, value, ...source, error: `Couldn't find a username, FID or address in "${input.trim()}"` };
+  }
+
+  return { ...(type ? validateAsType(value, type) : detectInputType(value)), value, ...source };
+}
+
+/**
+ * Key identifying what an input will be searched as, for deduplicating inputs
+ * A link and the plain identifier it contains share a key when they're searched the same way.
+ * EVM addresses and names are case-insensitive and lowercased; base58 Solana addresses are not
+ * @param input - Search input
+ * @returns Detected type and identifier, e.g. farcaster:dwr
+ */
+export function getSearchInputKey(input: string): string {
+  const { type, value } = validateAddressOrUsername(input);
+  return `${type}:${type === 'solana' ? value : value.toLowerCase()}`;
+}
+
+export interface BulkInputError {
+  line: number;
+  input: string;
+  error: string;
+}
+
+export interface BulkInputOptions {
+  // Read the text as a CSV file: skip a header row and take only the identifier column
+  csv?: boolean;
+}
+
+export interface BulkCsvColumn {
+  // 1-based column the entries were read from
+  column: number;
+  // The column's header, if the file had a header row
+  header?: string;
+  // Number of other columns, which were not read
+  ignoredColumns: number;
+}
+
+export interface BulkInputResult {
+  // Valid, deduplicated entries in the order they appeared
+  valid: string[];
+  invalid: BulkInputError[];
+  // Valid entries that were added but look mistyped (e.g. a bad EIP-55 checksum)
+  warnings: BulkInputError[];
+  // Entries skipped because they were already listed (see getSearchInputKey)
+  duplicates: string[];
+  // Set for CSV input: the column the entries were read from
+  csv?: BulkCsvColumn;
+}
+
+// Column names that mark a CSV row as a header rather than data
+const CSV_HEADER_PATTERN = /^(?:wallets?|address(?:es)?|(?:wallet|eth|evm|sol|solana)[ _-]?address|accounts?|usernames?|users?|handles?|fnames?|fids?|x|twitter|names?|display[ _-]?name|amounts?|balances?|quantity|qty|count|value|tokens?|notes?|label|email|id)$/i;
+
+// Header names of columns that hold search inputs, preferred when picking the column to read
+const CSV_IDENTIFIER_HEADER_PATTERN = /^(?:wallets?|address(?:es)?|(?:wallet|eth|evm|sol|solana)[ _-]?address|accounts?|usernames?|users?|handles?|fnames?|fids?|x|twitter)$/i;
+
+/**
+ * Check if a validated input names its target unambiguously (an address, ENS name, Basename,
+ * link, @handle or prefixed input), unlike a bare word or number that could be a header or amount
+ * @param validation - Result of validateAddressOrUsername
+ * @returns boolean indicating if the input is unambiguous
+ */
+function isDistinctIdentifier(validation: SearchInputValidation): boolean {
+  return validation.isValid && (
+    !!validation.platform ||
+    validation.type === 'ethereum' ||
+    validation.type === 'solana' ||
+    validation.type === 'ens' ||
+    validation.type === 'basename'
+  );
+}
+
+/**
+ * Check if a CSV row is a header: no cell is an unambiguous identifier, and every cell is
+ * a known column name or not a valid input at all (e.g. "Wallet Address")
+ * @param cells - The row's fields
+ * @returns boolean indicating if the row is a header
+ */
+function isCsvHeaderRow(cells: string[]): boolean {
+  const filled = cells.filter(Boolean);
+  return filled.length > 0 && filled.every(cell => {
+    const validation = validateAddressOrUsername(cell);
+    return !isDistinctIdentifier(validation) && (CSV_HEADER_PATTERN.test(cell) || !validation.isValid);
+  });
+}
+
+/**
+ * Pick the CSV column that holds the search inputs: a column with an identifier header
+ * (address, username, fid, ...) first, then the most unambiguous identifiers, then the most
+ * valid inputs; ties go to the leftmost column
+ * @param rows - Data rows, header excluded
+ * @param header - Header row, if the file has one
+ * @returns 0-based column index
+ */
+function pickCsvColumn(rows: string[][], header: string[] | null): number {
+  const columnCount = Math.max(1, ...rows.map(cells => cells.length));
+  let bestColumn = 0;
+  let bestScore: number[] = [];
+
+  for (let column = 0; column < columnCount; column++) {
+    const validations = rows
+      .map(cells => cells[column])
+      .filter(Boolean)
+      .map(cell => validateAddressOrUsername(cell));
+    const score = [
+      header && CSV_IDENTIFIER_HEADER_PATTERN.test(header[column] || '') ? 1 : 0,
+      validations.filter(isDistinctIdentifier).length,
+      validations.filter(validation => validation.isValid).length
+    ];
+
+    const firstDifference = score.findIndex((value, index) => value !== bestScore[index]);
+    if (column === 0 || (firstDifference >= 0 && score[firstDifference] > bestScore[firstDifference])) {
+      bestColumn = column;
+      bestScore = score;
+    }
+  }
+
+  return bestColumn;
+}
+
+/**
+ * Read the entries of a CSV file's identifier column, one per data row
+ * A header row is skipped and only the column picked by pickCsvColumn is read, so an
+ * `address,amount` allowlist export doesn't add its header as usernames or its amounts as FIDs
+ * @param text - Raw CSV text
+ * @returns Entries with their line numbers, and the column that was read
+ */
+function readCsvEntries(text: string): { lines: Array<{ line: number; entries: string[] }>; csv: BulkCsvColumn } {
+  const rows = text.split(/\r?\n/)
+    .map((lineText, index) => ({ line: index + 1, cells: parseCsvLine(lineText) }))
+    .filter(row => row.cells.some(Boolean));
+
+  const header = rows.length > 0 && isCsvHeaderRow(rows[0].cells) ? rows[0].cells : null;
+  const dataRows = header ? rows.slice(1) : rows;
+  const column = pickCsvColumn(dataRows.map(row => row.cells), header);
+  const columnCount = Math.max(1, header?.length || 0, ...dataRows.map(row => row.cells.length));
+
+  return {
+    lines: dataRows.map(row => ({ line: row.line, entries: row.cells[column] ? [row.cells[column]] : [] })),
+    csv: {
+      column: column + 1,
+      ...(header?.[column] ? { header: header[column] } : {}),
+      ignoredColumns: columnCount - 1
+    }
   };
 }
 
+/**
+ * Parse a pasted list or uploaded .txt/.csv file into search inputs
+ * Entries are split on commas, whitespace and newlines, and surrounding quotes are stripped.
+ * CSV files are read by column instead (see readCsvEntries)
+ * @param text - Raw text with one or more entries per line
+ * @param existingInputs - Inputs already queued, used for deduplication
+ * @param options - Set csv for uploaded .csv files
+ * @returns Valid entries plus per-line errors and skipped duplicates
+ */
+export function parseBulkInput(text: string, existingInputs: string[] = [], options: BulkInputOptions = {}): BulkInputResult {
+  const seen = new Set(existingInputs.map(getSearchInputKey));
+  const result: BulkInputResult = { valid: [], invalid: [], warnings: [], duplicates: [] };
+
+  let lines: Array<{ line: number; entries: string[] }>;
+  if (options.csv) {
+    const csvEntries = readCsvEntries(text);
+    lines = csvEntries.lines;
+    result.csv = csvEntries.csv;
+  } else {
+    lines = text.split(/\r?\n/).map((lineText, index) => ({
+      line: index + 1,
+      entries: lineText
+        .split(/[,\s]+/)
+        .map(entry => entry.replace(/^["']+|["']+$/g, ''))
+        .filter(Boolean)
+    }));
+  }
+
+  for (const { line, entries } of lines) {
+    for (const entry of entries) {
+      const validation = validateAddressOrUsername(entry);
+      if (!validation.isValid) {
+        result.invalid.push({ line, input: entry, error: validation.error || 'Invalid format' });
+        continue;
+      }
+
+      const key = getSearchInputKey(entry);
+      if (seen.has(key)) {
+        result.duplicates.push(entry);
+        continue;
+      }
+
+      seen.add(key);
+      result.valid.push(entry);
+      if (validation.warning) {
+        result.warnings.push({ line, input: entry, error: validation.warning });
+      }
+    }
+  }
+
+  return result;
+}
+
 /**
  * Get the appropriate blockchain explorer URL for an address
- * @param address - The wallet address
+ * @param address - The wallet or token contract address
+ * @param chain - The EVM chain to link to (defaults to Base; ignored for Solana addresses)
+ * @param kind - Link to the address page or the token page
  * @returns Object with explorer URL and address type
  */
-export function getExplorerUrl(address: string): { url: string; type: 'ethereum' | 'solana' | 'unknown' } {
+export function getExplorerUrl(
+  address: string,
+  chain: ChainKey = 'base',
+  kind: 'address' | 'token' = 'address'
+): { url: string; type: 'ethereum' | 'solana' | 'unknown' } {
   if (isValidEthereumAddress(address)) {
+    const explorer = CHAINS[chain === 'solana' ? 'base' : chain].explorer;
     return {
-      url: `https://basescan.org/address/${address}`,
+      url: kind === 'token' ? explorer.tokenUrl(address) : explorer.addressUrl(address),
       type: 'ethereum'
     };
   }
   
   if (isValidSolanaAddress(address)) {
+    const explorer = CHAINS.solana.explorer;
     return {
-      url: `https://solscan.io/account/${address}`,
+      url: kind === 'token' ? explorer.tokenUrl(address) : explorer.addressUrl(address),
       type: 'solana'
     };
   }
@@ -202,9 +675,10 @@ export function getExplorerUrl(address: string): { url: string; type: 'ethereum'
 /**
  * Open blockchain explorer for the given address
  * @param address - The wallet address to view
+ * @param chain - The EVM chain to view it on (defaults to Base)
  */
-export function openExplorer(address: string): void {
-  const { url } = getExplorerUrl(address);
+export function openExplorer(address: string, chain: ChainKey = 'base'): void {
+  const { url } = getExplorerUrl(address, chain);
   if (url) {
     window.open(url, '_blank', 'noopener,noreferrer');
   }
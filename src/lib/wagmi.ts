@@ -1,11 +1,14 @@
 import { http, createConfig } from 'wagmi';
-import { base } from 'wagmi/chains';
+import { arbitrum, base, mainnet, optimism } from 'wagmi/chains';
 import { farcasterMiniApp } from '@farcaster/miniapp-wagmi-connector';
 
 export const wagmiConfig = createConfig({
-  chains: [base],
+  chains: [base, mainnet, optimism, arbitrum],
   transports: {
     [base.id]: http(),
+    [mainnet.id]: http(),
+    [optimism.id]: http(),
+    [arbitrum.id]: http(),
   },
   connectors: [
     farcasterMiniApp(),